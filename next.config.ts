@@ -10,6 +10,8 @@ const withPWA = withPWAInit({
   disable: isDev,
   register: true,
   skipWaiting: true,
+  // The word lists are only read by the server, and too big to cache offline.
+  publicExcludes: ["!noprecache/**/*", "!words/**/*"],
 });
 
 const nextConfig: NextConfig = {
@@ -1,34 +1,85 @@
 "use server";
 
 import {
+  commitGameUpdate,
+  createInitialGameState,
   createNewGame,
+  GameUpdate,
   getGame,
-  GITHUB_BRANCH_BASE,
-  GITHUB_USER_REPO,
-  updateGame,
+  saveNewGame,
 } from "@/lib/game-service";
 import {
+  getDawg,
+  getWordSet,
   getDictionaryWord,
   updateDictionaryWord,
   getDictionaryWords,
   updateDictionaryWords,
 } from "@/lib/dictionary-service";
 import { redirect } from "next/navigation";
+import { randomUUID } from "crypto";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { Octokit } from "@octokit/rest";
 import {
-  Board,
   BoardSquare,
   GameState,
-  PlacedTile,
+  GameView,
   Player,
+  PlayerView,
   Tile,
   PlayedWord,
+  Move,
+  GameAnalysis,
+  ComputerDifficulty,
+  ChallengeMode,
+  GameRules,
+  LanguageCode,
 } from "@/types";
-import { calculateMoveScore } from "@/lib/scoring";
-import { createInitialBoard, TILE_BAG } from "@/lib/game-data";
-import { capitalize, shuffle } from "@/lib/utils";
 import {
+  DEFAULT_GAME_RULES,
+  GAME_RULES_PRESETS,
+  GameRulesPreset,
+  getGameRules,
+  validateGameRules,
+} from "@/lib/game-rules";
+import { MoveRejection } from "@/lib/move-validator";
+import { GeneratedMove, generateMoves } from "@/lib/move-generator";
+import {
+  COMPUTER_DIFFICULTIES,
+  DEFAULT_COMPUTER_DIFFICULTY,
+  getComputerPlayerName,
+} from "@/lib/computer-player";
+import { simulateGameMoves, solveGameEndgame } from "@/lib/simulation-service";
+import { drawForTurnOrder, getCurrentPlayer } from "@/lib/turns";
+import { getLanguage } from "@/lib/languages";
+import { getNextTimeout, getTurnDeadline } from "@/lib/game-clock";
+import { appendGameEvents } from "@/lib/game-events";
+import { createGameView, createPublicEventLog } from "@/lib/game-view";
+import { trackGameDeadline } from "@/lib/game-deadlines";
+import {
+  applyDueTimeouts,
+  applyMove,
+  applyTimeouts,
+  checkAndEndGame,
+  eliminatePlayer,
+  endGame,
+  getWordsFromBoard,
+  playComputerTurns,
+  respondToPlay,
+} from "@/lib/game-play";
+import { GcgError, getGcgRules, importGcgGame, parseGcg } from "@/lib/gcg";
+import { analyzeGame, getSavedAnalysis, saveAnalysis } from "@/lib/game-analysis";
+import {
+  createSessionToken,
+  hashPlayerCode,
+  verifyPlayerCode,
+  verifySessionToken,
+} from "@/lib/player-auth";
+import { capitalize } from "@/lib/utils";
+import {
+  GITHUB_BRANCH_BASE,
+  GITHUB_USER_REPO,
+  INVALID_SESSION_ERROR,
   INVALID_WORD_ERROR,
   NO_API_KEY_ERROR,
   UNDEFINED_WORD_ERROR,
@@ -36,42 +87,11 @@ import {
 } from "@/lib/constants";
 import { generateCrosswordTitle } from "@/ai/flows/title-flow";
 
-let wordSet: Set<string>;
 const definitionCache = new Map<string, string | null>();
 
-async function getWordSet() {
-  if (wordSet) {
-    return wordSet;
-  }
-
-  const baseUrl = process.env.VERCEL_URL
-    ? `https://${process.env.VERCEL_URL}`
-    : `http://localhost:${process.env.PORT || 9002}`;
-
-  const url = `${baseUrl}/valid-words.txt`;
-
+export async function verifyWordAction(word: string, language?: LanguageCode) {
   try {
-    const response = await fetch(url, { cache: "force-cache" });
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch valid-words.txt from ${url}: ${response.statusText}. Make sure the file is present in the /public directory.`
-      );
-    }
-    const fileContent = await response.text();
-    const words = fileContent
-      .split("\n")
-      .map((word) => word.trim().toUpperCase());
-    wordSet = new Set(words);
-    return wordSet;
-  } catch (error) {
-    console.error("Error fetching or parsing word set:", error);
-    throw error;
-  }
-}
-
-export async function verifyWordAction(word: string) {
-  try {
-    const validWords = await getWordSet();
+    const validWords = await getWordSet(language);
     return {
       isValid: validWords.has(word.toUpperCase()),
     };
@@ -93,14 +113,165 @@ function generateGameId(length = 6) {
   return result;
 }
 
-export async function createGame() {
+/**
+ * Reads the rules for a new game from a preset plus any overrides, and why
+ * they are invalid if so.
+ */
+const getRulesFromForm = (
+  formData?: FormData
+): { rules: GameRules; error: string | null } => {
+  const preset = (formData?.get("rulesPreset") || "standard") as GameRulesPreset;
+  const rules: GameRules = { ...(GAME_RULES_PRESETS[preset] ?? DEFAULT_GAME_RULES) };
+  (["boardSize", "rackSize", "bingoBonus", "maxPlayers"] as const).forEach((key) => {
+    const value = formData?.get(key);
+    if (value) rules[key] = Number(value);
+  });
+  const language = formData?.get("language");
+  if (language) rules.language = language as LanguageCode;
+  const challengeMode = formData?.get("challengeMode");
+  if (challengeMode) rules.challengeMode = challengeMode as ChallengeMode;
+  const premiumSquares = formData?.get("premiumSquares");
+  if (premiumSquares) {
+    try {
+      rules.premiumSquares = JSON.parse(String(premiumSquares));
+    } catch {
+      return { rules, error: "Invalid premium squares." };
+    }
+  }
+  return { rules, error: validateGameRules(rules) };
+};
+
+export async function createGame(formData?: FormData) {
+  const { rules, error: rulesError } = getRulesFromForm(formData);
+  if (rulesError) throw new Error(rulesError);
+
   const gameId = generateGameId();
-  await createNewGame(gameId);
+  await createNewGame(gameId, rules);
+
+  const computerPlayers = Number(formData?.get("computerPlayers") || 0);
+  const difficulty = (formData?.get("difficulty") ||
+    DEFAULT_COMPUTER_DIFFICULTY) as ComputerDifficulty;
+  if (!COMPUTER_DIFFICULTIES.includes(difficulty)) throw new Error("Invalid difficulty.");
+  for (let i = 0; i < Math.min(computerPlayers, rules.maxPlayers - 1); i++) {
+    const result = await commitGameUpdate(gameId, (gameState) =>
+      joinGame(gameState, { name: "", code: "", isComputer: true, difficulty })
+    );
+    if ("error" in result) throw new Error(result.error);
+  }
   redirect(`/play/${gameId}`);
 }
 
-export async function getGameState(gameId: string) {
-  return await getGame(gameId.toUpperCase());
+/**
+ * Creates a game from a GCG file, finished or still in progress. Everyone in
+ * it signs in with the same code, and the importer is signed in as whoever's
+ * turn it is.
+ */
+export async function importGame(formData: FormData): Promise<{
+  success: boolean;
+  error?: string;
+  gameId?: string;
+  playerId?: string;
+  sessionToken?: string;
+}> {
+  const code = String(formData.get("playerCode") ?? "");
+  if (!code) return { success: false, error: "Player code cannot be empty." };
+  try {
+    const gcg = parseGcg(String(formData.get("gcg") ?? ""));
+    const language = (formData.get("language") || undefined) as LanguageCode | undefined;
+    const rules = getGcgRules(gcg, language);
+    const rulesError = validateGameRules(rules);
+    if (rulesError) return { success: false, error: rulesError };
+
+    const gameId = generateGameId();
+    const hashedCode = await hashPlayerCode(code);
+    const players = gcg.players.map((p) => ({
+      id: `p_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      name: p.name,
+      code: hashedCode,
+    }));
+    // The whole game is replayed before it is saved, so a file that can't be
+    // imported leaves nothing behind.
+    let gameState: GameState;
+    try {
+      const { gameState: importedGameState, ending } = importGcgGame(
+        createInitialGameState(gameId, rules),
+        gcg,
+        players
+      );
+      if (gcg.title) importedGameState.crosswordTitle = gcg.title;
+      gameState = ending
+        ? endGame(
+            importedGameState,
+            { ...ending, timestamp: new Date().toISOString() },
+            (winners) => `${winners}!`
+          )
+        : await checkAndEndGame(importedGameState);
+    } catch (e) {
+      if (e instanceof GcgError) return { success: false, error: e.message };
+      throw e;
+    }
+    await saveNewGame(
+      gameState,
+      `feat: Imported a game of ${players.map((p) => p.name).join(", ")}`
+    );
+    const playerId = getCurrentPlayer(gameState)?.id ?? players[0].id;
+    return {
+      success: true,
+      gameId,
+      playerId,
+      sessionToken: createSessionToken(gameId, playerId),
+    };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Failed to import the game." };
+  }
+}
+
+/** Finds the person in the game a session token was issued to. */
+const getSessionPlayer = (gameState: GameState, sessionToken?: string | null) => {
+  const playerId = verifySessionToken(sessionToken, gameState.gameId);
+  return gameState.players.find((p) => p.id === playerId && !p.isComputer) ?? null;
+};
+
+/**
+ * Gets the game as the signed in player sees it, or as a spectator without a
+ * valid session token.
+ */
+export async function getGameState(
+  gameId: string,
+  sessionToken?: string | null
+): Promise<{ gameState: GameView; sha: string } | null> {
+  let gameData = await getGame(gameId.toUpperCase());
+  if (!gameData) return null;
+  const timeout = getNextTimeout(gameData.gameState);
+  if (timeout && timeout.at <= Date.now()) {
+    // Deadlines are applied by whoever next looks at the game.
+    const result = await applyDueTimeouts(gameData.gameState.gameId);
+    if (!("error" in result)) gameData = result;
+  } else {
+    trackGameDeadline(gameData.gameState.gameId, gameData.gameState);
+  }
+  const viewer = getSessionPlayer(gameData.gameState, sessionToken);
+  return {
+    gameState: createGameView(gameData.gameState, viewer?.id),
+    sha: gameData.sha,
+  };
+}
+
+/** Signs a player in with their secret code, which never leaves the server. */
+export async function authenticatePlayer(
+  gameId: string,
+  playerId: string,
+  code: string
+): Promise<{ success: boolean; error?: string; sessionToken?: string }> {
+  const gameData = await getGame(gameId.toUpperCase());
+  const player = gameData?.gameState.players.find((p) => p.id === playerId);
+  if (!player || player.isComputer || !(await verifyPlayerCode(code, player.code))) {
+    return { success: false, error: "The code you entered is incorrect." };
+  }
+  return {
+    success: true,
+    sessionToken: createSessionToken(gameData!.gameState.gameId, player.id),
+  };
 }
 
 const genAI = process.env.GEMINI_API_KEY
@@ -312,6 +483,37 @@ export async function getWordDefinitions(
 
 const DICTIONARY_PATH = "public/valid-words.txt";
 
+// GitHub rejects issue bodies longer than 65536 characters.
+const MAX_REPORTED_EVENT_LOG_LENGTH = 60000;
+
+/**
+ * Formats a game's event log so the game can be replayed locally by saving it
+ * as the game file in the local game store. Reports are public, and the log
+ * and seed give away every rack and draw, so they are only included once the
+ * game has ended, without the player codes. Otherwise the game is fetched
+ * from the store by its version.
+ */
+const formatEventLogForReport = (gameData: { gameState: GameState; sha: string } | null) => {
+  if (!gameData?.gameState.events?.length) return "";
+  const { gameState, sha } = gameData;
+  const gameId = gameState.gameId.toUpperCase();
+  if (gameState.gamePhase !== "ended") {
+    return `\nThe game is still in progress, so its event log isn't included. See \`${gameId}.json\` in the game store at version \`${sha}\`.`;
+  }
+  const eventLog = JSON.stringify({ events: createPublicEventLog(gameState) });
+  if (eventLog.length > MAX_REPORTED_EVENT_LOG_LENGTH) {
+    return "\nThe event log is too long to include, see the game file instead.";
+  }
+  return `
+<details>
+<summary>Event log (save as <code>.scrabblex-data/${gameId}.json</code> to replay locally)</summary>
+
+\`\`\`json
+${eventLog}
+\`\`\`
+</details>`;
+};
+
 export async function reportBugAction(
   title: string,
   body: string,
@@ -336,6 +538,7 @@ export async function reportBugAction(
   const octokit = new Octokit({ auth: GITHUB_TOKEN });
 
   try {
+    const gameData = gameId ? await getGame(gameId.toUpperCase()) : null;
     const enhancedBody = `
 **Bug Report**
 
@@ -348,8 +551,10 @@ Timestamp: ${new Date().toUTCString()}
 Player: ${playerName}
 Game ID: ${gameId}
 Game State: ${gameSha || "N/A"}
+Game Seed: ${gameData?.gameState.gamePhase === "ended" ? gameData.gameState.seed ?? "N/A" : "Hidden until the game ends"}
 
 [View Game](https://scrabblex.com/play/${gameId})
+${formatEventLogForReport(gameData)}
     `;
 
     const { data: issue } = await octokit.issues.create({
@@ -492,312 +697,112 @@ Timestamp: ${new Date().toUTCString()}`,
   }
 }
 
-type WordSuggestion = {
-  word: string;
-  tiles: PlacedTile[];
-  score: number;
-  direction: "horizontal" | "vertical";
-  x: number;
-  y: number;
-};
-
 export async function getWordSuggestions(
   board: BoardSquare[][],
-  rack: Tile[]
-): Promise<WordSuggestion[]> {
-  const dictionary = await getWordSet();
-  const suggestions: WordSuggestion[] = [];
-  
-  const boardLetters = new Set<string>();
-  board.flat().forEach(s => {
-    if (s.tile) boardLetters.add(s.tile.letter);
-  });
-  const rackLetters = rack.map(t => t.letter);
-  const rackCounts = getCharCounts(rackLetters);
-  const hasBlank = rackLetters.includes(" ");
-
-  const possibleWords = Array.from(dictionary)
-    .filter(word => {
-      const wordCounts = getCharCounts(word.split(""));
-      let blanksNeeded = 0;
-      for (const char in wordCounts) {
-        const needed = wordCounts[char];
-        const available = rackCounts[char] || 0;
-        if (needed > available) {
-          if (!hasBlank) return false;
-          blanksNeeded += (needed - available);
-        }
-      }
-      const totalBlanks = rackCounts[" "] || 0;
-      return blanksNeeded <= totalBlanks;
-    })
-    .sort((a, b) => b.length - a.length);
-
-  const anchors = findAnchors(board);
-
-  for (const word of possibleWords) {
-    if (suggestions.length >= 100) break;
-
-    for (const anchor of anchors) {
-      if (suggestions.length >= 100) break;
-
-      const directions: ("horizontal" | "vertical")[] = ["horizontal", "vertical"];
-      for (const direction of directions) {
-        if (suggestions.length >= 100) break;
-
-        for (let i = 0; i < word.length; i++) {
-          const startX = direction === "horizontal" ? anchor.x : anchor.x - i;
-          const startY = direction === "horizontal" ? anchor.y - i : anchor.y;
-
-          const placement = checkPlacement(board, word, startX, startY, direction, rack);
-          if (placement) {
-            const tempBoard = JSON.parse(JSON.stringify(board));
-            placement.forEach(tile => {
-              if (tempBoard[tile.x]?.[tile.y]) tempBoard[tile.x][tile.y].tile = tile;
-            });
-
-            const { score, words: formedWords } = calculateMoveScore(placement, board);
-            const allWordsValid = formedWords.every(w => dictionary.has(w.word.toUpperCase()));
-
-            if (allWordsValid) {
-              suggestions.push({
-                word,
-                tiles: placement,
-                score,
-                direction,
-                x: startX,
-                y: startY
-              });
-              if (suggestions.length >= 100) break;
-            }
-          }
-        }
-      }
-    }
-  }
-
-  return suggestions.sort((a, b) => b.score - a.score);
+  rack: Tile[],
+  { limit, rules }: { limit?: number; rules?: GameRules } = {}
+): Promise<GeneratedMove[]> {
+  const moves = generateMoves(board, rack, await getDawg(rules?.language), rules);
+  return limit === undefined ? moves : moves.slice(0, limit);
 }
 
-function getCharCounts(chars: string[]): Record<string, number> {
-  const counts: Record<string, number> = {};
-  for (const char of chars) {
-    counts[char] = (counts[char] || 0) + 1;
-  }
-  return counts;
-}
+const ANALYSIS_SIMULATION_OPTIONS = { iterations: 10, timeLimitMs: 500 };
+const ANALYSIS_ENDGAME_OPTIONS = { timeLimitMs: 1500 };
 
-function findAnchors(board: BoardSquare[][]): { x: number; y: number }[] {
-  const anchors: { x: number; y: number }[] = [];
-  let boardEmpty = true;
-  for (let r = 0; r < 15; r++) {
-    for (let c = 0; c < 15; c++) {
-      if (board[r][c].tile) {
-        boardEmpty = false;
-        const neighbors = [[r-1, c], [r+1, c], [r, c-1], [r, c+1]];
-        for (const [nr, nc] of neighbors) {
-          if (nr >= 0 && nr < 15 && nc >= 0 && nc < 15 && !board[nr][nc].tile) {
-            if (!anchors.some(a => a.x === nr && a.y === nc)) {
-              anchors.push({ x: nr, y: nc });
-            }
-          }
-        }
-      }
+/**
+ * Analyses a finished game move by move, once. Anyone can see it, as every
+ * rack is shown once a game ends.
+ */
+export async function getGameAnalysis(
+  gameId: string
+): Promise<{ success: boolean; error?: string; analysis?: GameAnalysis }> {
+  try {
+    const gameData = await getGame(gameId.toUpperCase());
+    if (!gameData) return { success: false, error: "Game not found." };
+    const { gameState } = gameData;
+    if (gameState.gamePhase !== "ended") {
+      return { success: false, error: "Games can only be analysed once they have ended." };
     }
-  }
-  return boardEmpty ? [{ x: 7, y: 7 }] : anchors;
-}
-
-function checkPlacement(
-  board: Board,
-  word: string,
-  startX: number,
-  startY: number,
-  direction: "horizontal" | "vertical",
-  rack: Tile[]
-): PlacedTile[] | null {
-  if (startX < 0 || startY < 0) return null;
-  const endX = direction === "horizontal" ? startX : startX + word.length - 1;
-  const endY = direction === "horizontal" ? startY + word.length - 1 : startY;
-  if (endX >= 15 || endY >= 15) return null;
-
-  const placedTiles: PlacedTile[] = [];
-  const usedRackTileIds = new Set<string>();
-  let usesRackTile = false;
-
-  const beforeX = direction === "vertical" ? startX - 1 : startX;
-  const beforeY = direction === "horizontal" ? startY - 1 : startY;
-  if (beforeX >= 0 && beforeY >= 0 && board[beforeX][beforeY].tile) return null;
-
-  const afterX = direction === "vertical" ? endX + 1 : endX;
-  const afterY = direction === "horizontal" ? endY + 1 : endY;
-  if (afterX < 15 && afterY < 15 && board[afterX][afterY].tile) return null;
-
-  for (let i = 0; i < word.length; i++) {
-    const x = direction === "horizontal" ? startX : startX + i;
-    const y = direction === "horizontal" ? startY + i : startY;
-    const char = word[i];
-    const square = board[x][y];
-
-    if (square.tile) {
-      if (square.tile.letter !== char) return null;
-    } else {
-      let rackTile = rack.find(t => t.letter === char && !usedRackTileIds.has(t.id));
-      if (!rackTile) {
-        rackTile = rack.find(t => t.letter === " " && !usedRackTileIds.has(t.id));
-        if (!rackTile) return null;
-        placedTiles.push({ ...rackTile, letter: char, originalLetter: " ", x, y });
-      } else {
-        placedTiles.push({ ...rackTile, x, y });
+    let analysis = await getSavedAnalysis(gameState);
+    if (!analysis) {
+      const dawg = await getDawg(getGameRules(gameState).language);
+      try {
+        // Quicker searches than the computer players', as every move is searched.
+        analysis = await analyzeGame(gameState, dawg, {
+          simulate: (position, playerId, candidates) =>
+            simulateGameMoves(position, playerId, candidates, ANALYSIS_SIMULATION_OPTIONS),
+          solveEndgame: (position, playerId, options) =>
+            solveGameEndgame(position, playerId, { ...ANALYSIS_ENDGAME_OPTIONS, ...options }),
+        });
+      } catch (e) {
+        console.error("Failed to search ahead from the game's moves:", e);
+        analysis = await analyzeGame(gameState, dawg);
       }
-      usedRackTileIds.add(rackTile.id);
-      usesRackTile = true;
+      await saveAnalysis(gameState.gameId, analysis);
     }
+    return { success: true, analysis };
+  } catch (e: any) {
+    return { success: false, error: e.message };
   }
-
-  return usesRackTile ? placedTiles : null;
 }
 
 export async function replacePlayerWithComputer(
   gameId: string,
-  playerId: string
+  sessionToken: string,
+  playerId: string,
+  difficulty: ComputerDifficulty = DEFAULT_COMPUTER_DIFFICULTY
 ): Promise<{ success: boolean; error?: string }> {
-  const gameData = await getGameState(gameId);
-  if (!gameData) return { success: false, error: "Game not found." };
-
-  let { gameState, sha } = gameData;
-  const playerIndex = gameState.players.findIndex((p) => p.id === playerId);
-  if (playerIndex === -1) return { success: false, error: "Player not found." };
-
-  const isCurrentTurn = getCurrentPlayer(gameState)?.id === playerId;
-  if (!isCurrentTurn) return { success: false, error: "It is not this player's turn." };
-
-  const lastActivityTimestamp =
-    gameState.history.length > 0
-      ? new Date(gameState.history[gameState.history.length - 1].timestamp)
-      : gameState.createdAt
-      ? new Date(gameState.createdAt)
-      : null;
-
-  const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
-  if (lastActivityTimestamp && lastActivityTimestamp > thirtyMinutesAgo && gameState.history.length > 0) {
-    return { success: false, error: "Player not inactive long enough." };
-  }
-
-  const newGameState = JSON.parse(JSON.stringify(gameState));
-  const playerToReplace = newGameState.players[playerIndex];
-  playerToReplace.isComputer = true;
-
   try {
-    const message = `SYSTEM: Replaced player ${playerToReplace.name} with AI.`;
-    await updateGame(gameId, newGameState, sha, message);
+    const result = await commitGameUpdate(gameId.toUpperCase(), async (gameState) => {
+      if (!getSessionPlayer(gameState, sessionToken)) return { error: INVALID_SESSION_ERROR };
+      const playerIndex = gameState.players.findIndex((p) => p.id === playerId);
+      if (playerIndex === -1) return { error: "Player not found." };
+      if (!COMPUTER_DIFFICULTIES.includes(difficulty)) return { error: "Invalid difficulty." };
+
+      const isCurrentTurn = getCurrentPlayer(gameState)?.id === playerId;
+      if (!isCurrentTurn) return { error: "It is not this player's turn." };
+
+      const playerToReplace = gameState.players[playerIndex];
+      if (playerToReplace.vacationStartedAt) return { error: `${playerToReplace.name} is on vacation.` };
+      const deadline = getTurnDeadline(gameState);
+      if (deadline === null || deadline > Date.now()) {
+        return { error: "Player not inactive long enough." };
+      }
 
-    const updatedGameData = await getGameState(gameId);
-    if (!updatedGameData) throw new Error("Failed to refetch game state.");
+      const newGameState = appendGameEvents(gameState, [
+        { type: "playerReplaced", timestamp: new Date().toISOString(), playerId, difficulty },
+      ]);
 
-    await playTurn({
-      gameId,
-      player: playerToReplace,
-      move: { type: "pass" },
+      return {
+        gameState: newGameState,
+        message: `SYSTEM: Replaced player ${playerToReplace.name} with ${difficulty} AI.`,
+      };
     });
-
+    if ("error" in result) return { success: false, error: result.error };
+    await playComputerTurns(result);
     return { success: true };
   } catch (e: any) {
     return { success: false, error: e.message || "Failed to update game." };
   }
 }
 
-const getWordsFromBoard = (board: Board): string[] => {
-  const words = new Set<string>();
-  for (let i = 0; i < 15; i++) {
-    let currentHorizontalWord = "";
-    let currentVerticalWord = "";
-    for (let j = 0; j < 15; j++) {
-      if (board[i][j].tile) currentHorizontalWord += board[i][j].tile!.letter;
-      else {
-        if (currentHorizontalWord.length > 1) words.add(currentHorizontalWord);
-        currentHorizontalWord = "";
-      }
-      if (board[j][i].tile) currentVerticalWord += board[j][i].tile!.letter;
-      else {
-        if (currentVerticalWord.length > 1) words.add(currentVerticalWord);
-        currentVerticalWord = "";
-      }
-    }
-    if (currentHorizontalWord.length > 1) words.add(currentHorizontalWord);
-    if (currentVerticalWord.length > 1) words.add(currentVerticalWord);
-  }
-  return Array.from(words);
-};
-
-const checkAndEndGame = async (gameState: GameState): Promise<GameState> => {
-  const { players, history, tileBag, board } = gameState;
-  const numPlayers = players.length;
-
-  if (numPlayers === 0 || gameState.gamePhase === "ended") return gameState;
-
-  let newGameState = JSON.parse(JSON.stringify(gameState)) as GameState;
-  let gameEnded = false;
-
-  const playerWithEmptyRack = players.find((p) => p.rack.length === 0);
-  if (tileBag.length === 0 && playerWithEmptyRack) {
-    gameEnded = true;
-    newGameState.gamePhase = "ended";
-    let pointsFromRacks = 0;
-    newGameState.players.forEach((p: Player) => {
-      const rackValue = p.rack.reduce((sum, tile) => sum + tile.points, 0);
-      if (p.id !== playerWithEmptyRack.id) {
-        p.score -= rackValue;
-        pointsFromRacks += rackValue;
-      }
-    });
-    const finishingPlayer = newGameState.players.find((p: Player) => p.id === playerWithEmptyRack.id)!;
-    finishingPlayer.score += pointsFromRacks;
-    const maxScore = Math.max(...newGameState.players.map((p: Player) => p.score));
-    const winners = newGameState.players.filter((p: Player) => p.score === maxScore);
-    newGameState.endStatus = `${winners.map((w) => w.name).join(" & ")} wins!`;
-  } else if (history.length >= numPlayers * 2) {
-    const lastMoves = history.slice(-numPlayers * 2);
-    if (lastMoves.every((move) => move.isPass)) {
-      gameEnded = true;
-      newGameState.gamePhase = "ended";
-      newGameState.players.forEach((p: Player) => {
-        const rackValue = p.rack.reduce((sum, tile) => sum + tile.points, 0);
-        p.score -= rackValue;
-      });
-      const maxScore = Math.max(...newGameState.players.map((p: Player) => p.score));
-      const winners = newGameState.players.filter((p: Player) => p.score === maxScore);
-      newGameState.endStatus = `Game ended by consecutive passes. ${winners.map((w) => w.name).join(" & ")} wins!`;
-    }
-  }
-
-  if (gameEnded && !newGameState.crosswordTitle) {
-    try {
-      const wordsOnBoard = getWordsFromBoard(board);
-      if (wordsOnBoard.length > 0) {
-        const { title } = await generateCrosswordTitle({ words: wordsOnBoard });
-        newGameState.crosswordTitle = title;
-      }
-    } catch (error) {
-      console.error("Failed to generate crossword title:", error);
-    }
-  }
-
-  return newGameState;
-};
-
 export async function generateAndSaveCrosswordTitle(gameId: string): Promise<string | null> {
-  const gameData = await getGameState(gameId);
+  const gameData = await getGame(gameId.toUpperCase());
   if (!gameData || gameData.gameState.crosswordTitle) return gameData?.gameState.crosswordTitle || null;
-  const { gameState, sha } = gameData;
-  const wordsOnBoard = getWordsFromBoard(gameState.board);
+  const wordsOnBoard = getWordsFromBoard(gameData.gameState.board);
   if (wordsOnBoard.length === 0) return null;
   try {
     const { title } = await generateCrosswordTitle({ words: wordsOnBoard });
     if (title) {
-      const newGameState = { ...gameState, crosswordTitle: title };
-      await updateGame(gameId, newGameState, sha, `SYSTEM: Added title for ${gameId}`);
-      return title;
+      const result = await commitGameUpdate(gameId.toUpperCase(), (gameState) =>
+        gameState.crosswordTitle
+          ? { error: "Title already set." }
+          : {
+              gameState: { ...gameState, crosswordTitle: title },
+              message: `SYSTEM: Added title for ${gameId}`,
+            }
+      );
+      return "error" in result ? null : title;
     }
   } catch (error) {
     console.error("Failed to generate and save title:", error);
@@ -805,136 +810,429 @@ export async function generateAndSaveCrosswordTitle(gameId: string): Promise<str
   return null;
 }
 
-const getCurrentPlayer = (gameState: GameState): Player | null => {
-  if (!gameState || gameState.players.length === 0) return null;
-  const turnsPlayed = gameState.history.filter(h => h.playerId).length;
-  if (turnsPlayed < gameState.players.length) {
-    const playedPlayerIds = new Set(gameState.history.map((h) => h.playerId));
-    const waitingPlayers = gameState.players.filter((p) => !playedPlayerIds.has(p.id));
-    if (waitingPlayers.length > 0) return waitingPlayers[0];
-  }
-  return gameState.players[turnsPlayed % gameState.players.length];
-};
-
 type PlayTurnOptions = {
   gameId: string;
-  player: Player;
-  move: { type: "play"; tiles: PlacedTile[] } | { type: "swap"; tiles: Tile[] } | { type: "pass" };
+  sessionToken: string;
+  move: Move;
+  /** The sha of the game state the move was made against. */
+  expectedSha?: string;
 };
 
-export async function addPlayer(gameId: string, playerName: string, playerCode: string): Promise<{ success: boolean; error?: string; player?: Player }> {
-  const gameData = await getGameState(gameId);
-  if (!gameData) return { success: false, error: "Game not found." };
-  const { gameState, sha } = gameData;
-  const { players, tileBag } = gameState;
-  if (players.length >= 4) return { success: false, error: "Game is full." };
-  const newTileBag = [...tileBag];
-  const newPlayerTiles = newTileBag.splice(0, 7);
-  const newPlayer: Player = {
-    id: `p_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-    name: playerName,
-    code: playerCode,
-    score: 0,
-    rack: newPlayerTiles,
-  };
-  const newGameState: GameState = {
-    ...gameState,
-    players: [...players, newPlayer],
-    tileBag: shuffle(newTileBag),
+type NewPlayer = {
+  name: string;
+  code: string;
+  isComputer?: boolean;
+  difficulty?: ComputerDifficulty;
+};
+
+/** Adds a player to the game in the lobby, who is dealt a rack when it starts. */
+const joinGame = async (
+  gameState: GameState,
+  { name: playerName, code, isComputer = false, difficulty }: NewPlayer
+): Promise<GameUpdate & { player?: Player }> => {
+  const { players } = gameState;
+  const { maxPlayers } = getGameRules(gameState);
+  if (gameState.gamePhase !== "lobby") return { error: "The game has already started." };
+  if (players.length >= maxPlayers) return { error: "Game is full." };
+  const name = isComputer
+    ? playerName || getComputerPlayerName(players, difficulty)
+    : playerName;
+  if (players.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+    return { error: "A player with that name already exists." };
+  }
+  const playerId = `p_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const timestamp = new Date().toISOString();
+  const player = isComputer
+    ? {
+        id: playerId,
+        name,
+        // Nobody can sign in as a computer player.
+        code: randomUUID(),
+        isComputer,
+        difficulty: difficulty ?? DEFAULT_COMPUTER_DIFFICULTY,
+      }
+    : { id: playerId, name, code: await hashPlayerCode(code) };
+  const joinedGameState = appendGameEvents(gameState, [
+    { type: "playerJoined", timestamp, player },
+  ]);
+  return {
+    gameState: joinedGameState,
+    message: `feat: Player ${name} joined`,
+    player: joinedGameState.players.find((p) => p.id === playerId),
   };
+};
+
+type AddPlayerOptions = {
+  isComputer?: boolean;
+  difficulty?: ComputerDifficulty;
+  /** Computer players can only be added by the host. */
+  sessionToken?: string | null;
+};
+
+export async function addPlayer(
+  gameId: string,
+  playerName: string,
+  playerCode: string,
+  { isComputer = false, difficulty, sessionToken }: AddPlayerOptions = {}
+): Promise<{
+  success: boolean;
+  error?: string;
+  player?: PlayerView;
+  sessionToken?: string;
+}> {
+  if (difficulty && !COMPUTER_DIFFICULTIES.includes(difficulty)) {
+    return { success: false, error: "Invalid difficulty." };
+  }
+  if (!isComputer && !playerCode) {
+    return { success: false, error: "Player code cannot be empty." };
+  }
+  let newPlayer: Player | undefined;
   try {
-    await updateGame(gameId, newGameState, sha, `feat: Player ${playerName} joined`);
-    return { success: true, player: newPlayer };
+    const result = await commitGameUpdate(gameId.toUpperCase(), async (gameState) => {
+      if (isComputer) {
+        const sessionPlayer = getSessionPlayer(gameState, sessionToken);
+        if (!sessionPlayer) return { error: INVALID_SESSION_ERROR };
+        if (sessionPlayer.id !== gameState.hostId) {
+          return { error: "Only the host can add computer players." };
+        }
+      }
+      const { player, ...update } = await joinGame(gameState, {
+        name: playerName,
+        code: playerCode,
+        isComputer,
+        difficulty,
+      });
+      newPlayer = player;
+      return update;
+    });
+    if ("error" in result) return { success: false, error: result.error };
+    return {
+      success: true,
+      player: createGameView(result.gameState, newPlayer!.id).players.find(
+        (p) => p.id === newPlayer!.id
+      ),
+      sessionToken: isComputer
+        ? undefined
+        : createSessionToken(result.gameState.gameId, newPlayer!.id),
+    };
   } catch (e: any) {
     return { success: false, error: e.message || "Failed to add player." };
   }
 }
 
-export async function playTurn({ gameId, player, move }: PlayTurnOptions): Promise<{ success: boolean; error?: string }> {
-  const gameData = await getGameState(gameId);
-  if (!gameData) return { success: false, error: "Game not found." };
-  let { gameState, sha } = gameData;
-  let message = "";
-
-  const applyMove = async (gs: GameState, p: Player, m: PlayTurnOptions["move"]): Promise<GameState | { error: string }> => {
-    const playerIndex = gs.players.findIndex((pl) => pl.id === p.id);
-    if (playerIndex === -1) return { error: "Player not found" };
-    const playerToUpdateInNewState = gs.players[playerIndex];
-    let newGameState: GameState = JSON.parse(JSON.stringify(gs));
-    const updatedPlayer = newGameState.players[playerIndex];
-
-    if (m.type === "play") {
-      const { score, words, isBingo } = calculateMoveScore(m.tiles, gs.board);
-      const mainWord = words.find((w) => w.tiles.some((t) => m.tiles.find((mt) => mt.x === t.x && mt.y === t.y))) || words[0];
-      if (!mainWord) return { error: "Invalid move." };
-      message = `feat: ${p.name} played ${mainWord.word} for ${score}`;
-      updatedPlayer.score += score;
-      m.tiles.forEach((tile) => {
-        if (newGameState.board[tile.x]?.[tile.y]) newGameState.board[tile.x][tile.y].tile = tile;
-      });
-      const newTiles = newGameState.tileBag.splice(0, m.tiles.length);
-      const playedIds = new Set(m.tiles.map(t => t.id));
-      updatedPlayer.rack = [...updatedPlayer.rack.filter(t => !playedIds.has(t.id)), ...newTiles];
-      newGameState.history.push({
-        playerId: p.id,
-        playerName: p.name,
-        word: mainWord.word,
-        tiles: m.tiles,
-        score,
-        timestamp: new Date().toISOString(),
-      });
-    } else if (m.type === "swap") {
-      message = `feat: ${p.name} swapped ${m.tiles.length} tiles`;
-      const swappedIds = new Set(m.tiles.map(t => t.id));
-      const swappedOut = updatedPlayer.rack.filter(t => swappedIds.has(t.id));
-      const newTiles = newGameState.tileBag.splice(0, swappedOut.length);
-      updatedPlayer.rack = [...updatedPlayer.rack.filter(t => !swappedIds.has(t.id)), ...newTiles];
-      newGameState.tileBag = shuffle([...newGameState.tileBag, ...swappedOut]);
-      newGameState.history.push({
-        playerId: p.id,
-        playerName: p.name,
-        word: "[SWAP]",
-        tiles: [],
-        score: 0,
-        isSwap: true,
-        timestamp: new Date().toISOString(),
-      });
-    } else if (m.type === "pass") {
-      message = `feat: ${p.name} passed`;
-      newGameState.history.push({
-        playerId: p.id,
-        playerName: p.name,
-        word: "[PASS]",
-        tiles: [],
-        score: 0,
-        isPass: true,
-        timestamp: new Date().toISOString(),
-      });
+/**
+ * Changes the game in the lobby as the signed in player, who has to be the
+ * host unless `hostOnly` is false.
+ */
+const updateLobby = async (
+  gameId: string,
+  sessionToken: string,
+  update: (gameState: GameState, player: Player) => GameUpdate | Promise<GameUpdate>,
+  { hostOnly = true } = {}
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const result = await commitGameUpdate(gameId.toUpperCase(), async (gameState) => {
+      const player = getSessionPlayer(gameState, sessionToken);
+      if (!player) return { error: INVALID_SESSION_ERROR };
+      if (gameState.gamePhase !== "lobby") return { error: "The game has already started." };
+      if (hostOnly && player.id !== gameState.hostId) {
+        return { error: "Only the host can change the game." };
+      }
+      return update(gameState, player);
+    });
+    if ("error" in result) return { success: false, error: result.error };
+    // A started game may open with a computer player's turn.
+    await playComputerTurns(result);
+    return { success: true };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Failed to update the game." };
+  }
+};
+
+export async function setPlayerReady(
+  gameId: string,
+  sessionToken: string,
+  isReady: boolean
+): Promise<{ success: boolean; error?: string }> {
+  return updateLobby(gameId, sessionToken, (gameState, player) => ({
+    gameState: appendGameEvents(gameState, [
+      { type: "playerReady", timestamp: new Date().toISOString(), playerId: player.id, isReady },
+    ]),
+    message: `feat: ${player.name} is ${isReady ? "ready" : "not ready"}`,
+  }), { hostOnly: false });
+}
+
+/** Removes a player from the lobby, as the host. */
+export async function removePlayer(
+  gameId: string,
+  sessionToken: string,
+  playerId: string
+): Promise<{ success: boolean; error?: string }> {
+  return updateLobby(gameId, sessionToken, (gameState, host) => {
+    const player = gameState.players.find((p) => p.id === playerId);
+    if (!player) return { error: "Player not found." };
+    if (player.id === host.id) return { error: "The host can't remove themselves." };
+    return {
+      gameState: appendGameEvents(gameState, [
+        { type: "playerRemoved", timestamp: new Date().toISOString(), playerId },
+      ]),
+      message: `feat: ${host.name} removed ${player.name}`,
+    };
+  });
+}
+
+/** Sets the seating order, which the turn order follows, as the host. */
+export async function reorderPlayers(
+  gameId: string,
+  sessionToken: string,
+  playerIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  return updateLobby(gameId, sessionToken, (gameState) => {
+    const currentIds = gameState.players.map((p) => p.id);
+    const isSamePlayers =
+      playerIds.length === currentIds.length &&
+      new Set(playerIds).size === playerIds.length &&
+      playerIds.every((id) => currentIds.includes(id));
+    if (!isSamePlayers) return { error: "The new order must list every player once." };
+    return {
+      gameState: appendGameEvents(gameState, [
+        { type: "playersReordered", timestamp: new Date().toISOString(), playerIds },
+      ]),
+      message: "feat: Players reordered",
+    };
+  });
+}
+
+export async function changeGameRules(
+  gameId: string,
+  sessionToken: string,
+  rules: GameRules
+): Promise<{ success: boolean; error?: string }> {
+  const rulesError = validateGameRules(rules);
+  if (rulesError) return { success: false, error: rulesError };
+  return updateLobby(gameId, sessionToken, (gameState) => {
+    if (gameState.players.length > rules.maxPlayers) {
+      return { error: "There are already more players than the new rules allow." };
     }
-    return await checkAndEndGame(newGameState);
-  };
+    return {
+      gameState: appendGameEvents(gameState, [
+        { type: "rulesChanged", timestamp: new Date().toISOString(), rules },
+      ]),
+      message: "feat: Rules changed",
+    };
+  });
+}
 
-  if (!(player.isComputer && move.type === "pass")) {
-    let result = await applyMove(gameState, player, move);
+/**
+ * Starts the game once everyone is ready, as the host. The players draw tiles
+ * for the turn order, then each is dealt a rack in that order.
+ */
+export async function startGame(
+  gameId: string,
+  sessionToken: string
+): Promise<{ success: boolean; error?: string }> {
+  return updateLobby(gameId, sessionToken, async (gameState, host) => {
+    const notReady = gameState.players.filter((p) => p.id !== host.id && !p.isReady);
+    if (notReady.length > 0) {
+      return { error: `Waiting for ${notReady.map((p) => p.name).join(", ")} to be ready.` };
+    }
+    const timestamp = new Date().toISOString();
+    const { turnOrder, turnOrderDraws } = drawForTurnOrder(
+      gameState.players.map((p) => p.id),
+      gameState.tileBag,
+      getLanguage(getGameRules(gameState).language).alphabet
+    );
+    const startedGameState = appendGameEvents(gameState, [
+      { type: "gameStarted", timestamp, turnOrder, turnOrderDraws },
+    ]);
+    // The bag is shuffled again after the draw, so racks come from the new order.
+    const { rackSize } = getGameRules(startedGameState);
+    const dealtGameState = appendGameEvents(
+      startedGameState,
+      turnOrder.map((playerId, i) => ({
+        type: "tilesDrawn" as const,
+        timestamp,
+        playerId,
+        tileIds: startedGameState.tileBag
+          .slice(i * rackSize, (i + 1) * rackSize)
+          .map((t) => t.id),
+      }))
+    );
+    const firstPlayer = getCurrentPlayer(dealtGameState)!;
+    return {
+      gameState: dealtGameState,
+      message: `feat: Game started, ${firstPlayer.name} goes first`,
+    };
+  });
+}
+
+export async function playTurn({ gameId, sessionToken, move, expectedSha }: PlayTurnOptions): Promise<{ success: boolean; error?: string; reasons?: MoveRejection[] }> {
+  let reasons: MoveRejection[] | undefined;
+  try {
+    const result = await commitGameUpdate(gameId.toUpperCase(), async (gameState) => {
+      const player = getSessionPlayer(gameState, sessionToken);
+      if (!player) return { error: INVALID_SESSION_ERROR };
+      // A move made after the time ran out is too late.
+      const timeoutResult = await applyTimeouts(gameState);
+      const moveResult = await applyMove(timeoutResult.gameState, player, move);
+      if ("error" in moveResult) {
+        reasons = moveResult.reasons;
+        return moveResult;
+      }
+      return {
+        gameState: moveResult.gameState,
+        message: [timeoutResult.message, moveResult.message].filter(Boolean).join(", "),
+      };
+    }, expectedSha);
+    if ("error" in result) return { success: false, error: result.error, reasons };
+    await playComputerTurns(result);
+    return { success: true };
+  } catch (e: any) {
+    return { success: false, error: e.message };
+  }
+}
+
+/**
+ * Applies the clock timeouts that have passed, which browsers call when a
+ * clock they show runs out. Anyone can call it, as it only applies the rules.
+ */
+export async function checkGameClock(gameId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const result = await applyDueTimeouts(gameId.toUpperCase());
     if ("error" in result) return { success: false, error: result.error };
-    gameState = result;
+    return { success: true };
+  } catch (e: any) {
+    return { success: false, error: e.message };
   }
+}
 
+/**
+ * Starts or ends a player's vacation, which pauses their turn deadlines.
+ * Deadlines that passed before are applied first, so a player can't use a
+ * vacation to get out of a missed one.
+ */
+export async function setVacation(
+  gameId: string,
+  sessionToken: string,
+  isOnVacation: boolean
+): Promise<{ success: boolean; error?: string }> {
   try {
-    let currentPlayer = getCurrentPlayer(gameState);
-    while (currentPlayer?.isComputer && gameState.gamePhase === "playing") {
-      const suggestions = await getWordSuggestions(gameState.board, currentPlayer.rack);
-      let aiMove: PlayTurnOptions["move"] = suggestions.length > 0 ? { type: "play", tiles: suggestions[0].tiles } : (gameState.tileBag.length > 0 ? { type: "swap", tiles: currentPlayer.rack.slice(0, Math.min(7, gameState.tileBag.length)) } : { type: "pass" });
-      let result = await applyMove(gameState, currentPlayer, aiMove);
-      if ("error" in result) result = await applyMove(gameState, currentPlayer, { type: "pass" });
-      if ("error" in result) break;
-      gameState = result;
-      currentPlayer = getCurrentPlayer(gameState);
-    }
-    const finalData = await getGameState(gameId);
-    await updateGame(gameId, gameState, finalData?.sha || sha, message);
+    const result = await commitGameUpdate(gameId.toUpperCase(), async (gameState) => {
+      if (!getSessionPlayer(gameState, sessionToken)) return { error: INVALID_SESSION_ERROR };
+      if (gameState.gamePhase === "ended") return { error: "The game is over." };
+      if (!getGameRules(gameState).turnDeadline) return { error: "This game has no turn deadlines." };
+      const timeoutResult = await applyTimeouts(gameState);
+      const player = getSessionPlayer(timeoutResult.gameState, sessionToken);
+      if (!player) return { error: "You are no longer playing in this game." };
+      if (!!player.vacationStartedAt === isOnVacation) {
+        return { error: isOnVacation ? "You are already on vacation." : "You are not on vacation." };
+      }
+      return {
+        gameState: appendGameEvents(timeoutResult.gameState, [
+          { type: "vacationChanged", timestamp: new Date().toISOString(), playerId: player.id, isOnVacation },
+        ]),
+        message: [
+          timeoutResult.message,
+          `feat: ${player.name} is ${isOnVacation ? "away on vacation" : "back from vacation"}`,
+        ].filter(Boolean).join(", "),
+      };
+    });
+    if ("error" in result) return { success: false, error: result.error };
+    // A missed deadline may have handed the turn to a computer player.
+    await playComputerTurns(result);
+    return { success: true };
+  } catch (e: any) {
+    return { success: false, error: e.message };
+  }
+}
+
+const updatePendingPlay = async (
+  gameId: string,
+  sessionToken: string,
+  isChallenge: boolean,
+  expectedSha?: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const result = await commitGameUpdate(gameId.toUpperCase(), async (gameState) => {
+      const player = getSessionPlayer(gameState, sessionToken);
+      if (!player) return { error: INVALID_SESSION_ERROR };
+      const timeoutResult = await applyTimeouts(gameState);
+      const response = await respondToPlay(timeoutResult.gameState, player, isChallenge);
+      if ("error" in response) return response;
+      return {
+        gameState: response.gameState,
+        message: [timeoutResult.message, response.message].filter(Boolean).join(", "),
+      };
+    }, expectedSha);
+    if ("error" in result) return { success: false, error: result.error };
+    await playComputerTurns(result);
     return { success: true };
   } catch (e: any) {
     return { success: false, error: e.message };
   }
-}
\ No newline at end of file
+};
+
+/**
+ * Challenges the latest play as an opponent of whoever made it. The play is
+ * taken back if any word it formed is invalid, otherwise the challenger pays
+ * the penalty of the game's challenge mode.
+ */
+export async function challengePlay(
+  gameId: string,
+  sessionToken: string,
+  expectedSha?: string
+): Promise<{ success: boolean; error?: string }> {
+  return updatePendingPlay(gameId, sessionToken, true, expectedSha);
+}
+
+/** Lets the latest play stand without waiting for the next move. */
+export async function acceptPlay(
+  gameId: string,
+  sessionToken: string,
+  expectedSha?: string
+): Promise<{ success: boolean; error?: string }> {
+  return updatePendingPlay(gameId, sessionToken, false, expectedSha);
+}
+
+/**
+ * Resigns the signed in player. With more than two players the game carries on
+ * without them and their tiles go back into the bag, unless only computer
+ * players would be left. In the lobby the player just leaves.
+ */
+export async function resignGame(
+  gameId: string,
+  sessionToken: string,
+  expectedSha?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const result = await commitGameUpdate(gameId.toUpperCase(), async (gameState) => {
+      const player = getSessionPlayer(gameState, sessionToken);
+      if (!player) return { error: INVALID_SESSION_ERROR };
+      if (gameState.gamePhase === "ended") return { error: "The game is already over." };
+
+      const timestamp = new Date().toISOString();
+      if (gameState.gamePhase === "lobby") {
+        return {
+          gameState: appendGameEvents(gameState, [{ type: "playerRemoved", timestamp, playerId: player.id }]),
+          message: `feat: ${player.name} left`,
+        };
+      }
+      const resignedGameState = eliminatePlayer(
+        gameState,
+        player,
+        { type: "playerResigned", timestamp, playerId: player.id },
+        "resigned"
+      );
+      return {
+        gameState: resignedGameState,
+        message: `feat: ${player.name} resigned`,
+      };
+    }, expectedSha);
+    if ("error" in result) return { success: false, error: result.error };
+    // The game may now continue with a computer player's turn.
+    await playComputerTurns(result);
+    return { success: true };
+  } catch (e: any) {
+    return { success: false, error: e.message || "Failed to resign." };
+  }
+}
@@ -0,0 +1,60 @@
+import { subscribeToGameUpdates } from "@/lib/game-updates";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const KEEP_ALIVE_INTERVAL = 25000;
+
+/**
+ * Streams a `game-updated` Server-Sent Event with the new state version every
+ * time the game is saved.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const unsubscribe = subscribeToGameUpdates(
+        gameId.toUpperCase(),
+        (event) => send(`event: game-updated\ndata: ${JSON.stringify(event)}\n\n`)
+      );
+      // Comments keep proxies from closing an idle connection.
+      const keepAlive = setInterval(() => send(": keep-alive\n\n"), KEEP_ALIVE_INTERVAL);
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // The stream is already closed.
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
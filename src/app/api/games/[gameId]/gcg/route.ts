@@ -0,0 +1,26 @@
+import { getGame } from "@/lib/game-service";
+import { exportGcg } from "@/lib/gcg";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Downloads the game in GCG. Racks are only in it once the game is over, so
+ * anyone can download it.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const gameId = (await params).gameId.toUpperCase();
+  const gameData = await getGame(gameId);
+  if (!gameData) return new Response("Game not found.", { status: 404 });
+
+  return new Response(exportGcg(gameData.gameState), {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${gameId}.gcg"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,14 +1,28 @@
 "use client";
 import { createGame } from "@/app/actions";
 import { JoinGameDialog } from "@/components/join-game-dialog";
+import { ImportGameDialog } from "@/components/import-game-dialog";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Plus, Users, X, Home } from "lucide-react";
+import { Plus, Users, X, Home, Bot, Upload } from "lucide-react";
 import Link from "next/link";
 import { Logo } from "@/components/logo";
 import { LocalStorageKey } from "@/lib/constants";
 import { GameState } from "@/types";
+import {
+  COMPUTER_DIFFICULTIES,
+  DEFAULT_COMPUTER_DIFFICULTY,
+  getDifficultyLabel,
+} from "@/lib/computer-player";
+import { RULES_PRESET_OPTIONS } from "@/lib/game-rules";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface GameDetails extends GameState {
   updatedAt: string;
@@ -39,6 +53,9 @@ const getGameStatusText = (game: GameDetails): string => {
     return gameEndMsg;
   }
   const lastUpdatedMsg = `Last updated ${lastUpdated}`;
+  if (game.gamePhase === "lobby") {
+    return `Waiting to start. ${lastUpdatedMsg}`;
+  }
   if (game.gamePhase === "playing") {
     return `Game in progress. ${lastUpdatedMsg}`;
   }
@@ -158,15 +175,50 @@ export default function PlayPage() {
       <Card className="mt-20 w-full max-w-md text-center shadow-2xl z-10 border-primary/20">
         <CardContent className="pt-6">
           <div className="flex flex-col space-y-4">
-            <form action={createGame}>
+            <form action={createGame} className="flex gap-2">
+              <Select name="rulesPreset" defaultValue="standard">
+                <SelectTrigger className="w-[120px] h-auto">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULES_PRESET_OPTIONS.map(({ preset, label }) => (
+                    <SelectItem key={preset} value={preset}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 type="submit"
                 size="lg"
-                className="w-full text-lg py-7 bg-accent hover:bg-accent/90 text-accent-foreground"
+                className="flex-1 text-lg py-7 bg-accent hover:bg-accent/90 text-accent-foreground"
               >
                 <Plus className="mr-2 h-6 w-6" /> Create New Game
               </Button>
             </form>
+            <form action={createGame} className="flex gap-2">
+              <input type="hidden" name="computerPlayers" value="1" />
+              <Select name="difficulty" defaultValue={DEFAULT_COMPUTER_DIFFICULTY}>
+                <SelectTrigger className="w-[120px] h-auto">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPUTER_DIFFICULTIES.map((difficulty) => (
+                    <SelectItem key={difficulty} value={difficulty}>
+                      {getDifficultyLabel(difficulty)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="submit"
+                variant="outline"
+                size="lg"
+                className="flex-1 text-lg py-7"
+              >
+                <Bot className="mr-2 h-6 w-6" /> Play vs Computer
+              </Button>
+            </form>
             <JoinGameDialog>
               <Button
                 variant="outline"
@@ -176,6 +228,15 @@ export default function PlayPage() {
                 <Users className="mr-2 h-6 w-6" /> Join Existing Game
               </Button>
             </JoinGameDialog>
+            <ImportGameDialog>
+              <Button
+                variant="outline"
+                size="lg"
+                className="w-full text-lg py-7"
+              >
+                <Upload className="mr-2 h-6 w-6" /> Import GCG Game
+              </Button>
+            </ImportGameDialog>
           </div>
 
           {isLoading && (
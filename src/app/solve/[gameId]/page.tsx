@@ -3,7 +3,7 @@
 
 import { use, useState, useEffect } from "react";
 import { generateAndSaveCrosswordTitle, getGameState } from "@/app/actions";
-import { GameState } from "@/types";
+import { GameView } from "@/types";
 import { CrosswordBoard } from "@/components/crossword-board";
 import { Logo } from "@/components/logo";
 import { Home, ChevronLeft } from "lucide-react";
@@ -25,7 +25,7 @@ export default function SolveGamePage({
   params: Promise<{ gameId: string }>;
 }) {
   const { gameId } = use(params);
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [gameState, setGameState] = useState<GameView | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [completionDate, setCompletionDate] = useState<string | null>(null);
@@ -7,8 +7,9 @@ import { Cross, Home } from "lucide-react";
 import Link from "next/link";
 import { Logo } from "@/components/logo";
 import { GameState, PlacedTile } from "@/types";
-import { GITHUB_BRANCH_GAMES, GITHUB_USER_REPO } from "@/lib/game-service";
+import { GITHUB_BRANCH_GAMES, GITHUB_USER_REPO } from "@/lib/constants";
 import { cn } from "@/lib/utils";
+import { getGameRules } from "@/lib/game-rules";
 
 type FilterType = "all" | "new" | "in-progress" | "completed";
 
@@ -21,8 +22,9 @@ interface GameDetails extends GameState {
 }
 
 const getWordsFromGameState = (gameState: GameState) => {
-  const board = Array.from({ length: 15 }, () =>
-    Array(15).fill(null)
+  const size = getGameRules(gameState).boardSize;
+  const board = Array.from({ length: size }, () =>
+    Array(size).fill(null)
   ) as (PlacedTile | null)[][];
   gameState.history.forEach((move) => {
     if (move.tiles) {
@@ -40,19 +42,19 @@ const getWordsFromGameState = (gameState: GameState) => {
   }[] = [];
   const wordStartPositions: { [key: string]: boolean } = {};
 
-  for (let r = 0; r < 15; r++) {
-    for (let c = 0; c < 15; c++) {
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
       if (!board[r][c]) continue;
 
       const isAcrossStart =
-        (c === 0 || !board[r][c - 1]) && c < 14 && board[r][c + 1];
+        (c === 0 || !board[r][c - 1]) && c < size - 1 && board[r][c + 1];
       const isDownStart =
-        (r === 0 || !board[r - 1]?.[c]) && r < 14 && board[r + 1]?.[c];
+        (r === 0 || !board[r - 1]?.[c]) && r < size - 1 && board[r + 1]?.[c];
 
       if (isAcrossStart) {
         let word = "";
         let length = 0;
-        for (let i = c; i < 15 && board[r][i]; i++) {
+        for (let i = c; i < size && board[r][i]; i++) {
           word += board[r][i]!.letter;
           length++;
         }
@@ -63,7 +65,7 @@ const getWordsFromGameState = (gameState: GameState) => {
       if (isDownStart) {
         let word = "";
         let length = 0;
-        for (let i = r; i < 15 && board[i]?.[c]; i++) {
+        for (let i = r; i < size && board[i]?.[c]; i++) {
           word += board[i][c]!.letter;
           length++;
         }
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import type {
+  AnalysedMove,
+  GameAnalysis,
+  MoveGrade,
+  PlayedWord,
+  PlayerView,
+} from "@/types";
+import { getGameAnalysis } from "@/app/actions";
+import { cn } from "@/lib/utils";
+
+interface AnalysisDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  gameId: string;
+  history: PlayedWord[];
+  players: PlayerView[];
+}
+
+const GRADE_LABELS: Record<MoveGrade, string> = {
+  best: "Best",
+  good: "Good",
+  inaccuracy: "Inaccuracy",
+  mistake: "Mistake",
+  blunder: "Blunder",
+};
+
+const GRADE_CLASSES: Record<MoveGrade, string> = {
+  best: "bg-green-600 hover:bg-green-600",
+  good: "bg-emerald-500 hover:bg-emerald-500",
+  inaccuracy: "bg-yellow-500 hover:bg-yellow-500",
+  mistake: "bg-orange-500 hover:bg-orange-500",
+  blunder: "bg-red-600 hover:bg-red-600",
+};
+
+const formatEquity = (equity: number) =>
+  Number.isInteger(equity) ? `${equity}` : equity.toFixed(1);
+
+const formatSpread = (spread: number) =>
+  `${spread >= 0 ? "+" : ""}${spread.toFixed(1)}`;
+
+/** Describes how a simulated play went, such as "62% to win, +8.5 spread". */
+const describeSimulation = ({ winProbability, expectedSpread }: AnalysedMove) =>
+  winProbability === undefined || expectedSpread === undefined
+    ? null
+    : `${Math.round(100 * winProbability)}% to win, ${formatSpread(expectedSpread)} spread`;
+
+const describeMove = (move: AnalysedMove) => {
+  if (move.type === "pass") return "pass";
+  if (move.type === "swap") return `swap ${move.tiles.join("")}`;
+  return `${move.word} for ${move.score}`;
+};
+
+export function AnalysisDialog({
+  isOpen,
+  onOpenChange,
+  gameId,
+  history,
+  players,
+}: AnalysisDialogProps) {
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || analysis) return;
+    setError(null);
+    getGameAnalysis(gameId).then((result) => {
+      if (result.analysis) setAnalysis(result.analysis);
+      else setError(result.error ?? "The game could not be analysed.");
+    });
+  }, [isOpen, analysis, gameId]);
+
+  const getPlayerName = (playerId: string) =>
+    players.find((p) => p.id === playerId)?.name ?? "Unknown";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Game Analysis</DialogTitle>
+          <DialogDescription>
+            Every move compared with the best move from the same position, by
+            its score plus the value of the tiles kept. Plays are also played
+            out a few turns ahead to estimate their chance of winning, and
+            endgames are solved to the last tile.
+          </DialogDescription>
+        </DialogHeader>
+        {!analysis ? (
+          <div className="flex justify-center p-8 text-muted-foreground">
+            {error ?? <Loader2 className="h-6 w-6 animate-spin" />}
+          </div>
+        ) : (
+          <>
+            <ul className="space-y-1">
+              {analysis.players.map((player) => (
+                <li
+                  key={player.playerId}
+                  className="flex justify-between items-center text-sm"
+                >
+                  <span className="font-bold">
+                    {getPlayerName(player.playerId)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {player.bestMoves}/{player.moves} best moves,{" "}
+                    {formatEquity(player.equityLost)} equity lost{" "}
+                    <span className="font-bold text-primary">
+                      {player.accuracy}%
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <ScrollArea className="max-h-[50vh] pr-4">
+              <ol className="space-y-2">
+                {analysis.moves.map((move) => (
+                  <li
+                    key={move.historyIndex}
+                    className="flex flex-col p-3 bg-muted/50 rounded-lg text-sm"
+                  >
+                    <div className="flex justify-between items-start gap-2">
+                      <p>
+                        <span className="font-bold">
+                          {getPlayerName(move.playerId)}
+                        </span>{" "}
+                        <span
+                          className={cn(
+                            "font-bold text-primary",
+                            history[move.historyIndex]?.isWithdrawn &&
+                              "line-through"
+                          )}
+                        >
+                          {describeMove(move.move)}
+                        </span>
+                      </p>
+                      <Badge className={GRADE_CLASSES[move.grade]}>
+                        {GRADE_LABELS[move.grade]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono">
+                      Rack {move.rack.join("")}
+                    </p>
+                    {describeSimulation(move.move) && (
+                      <p className="text-xs text-muted-foreground">
+                        Simulated: {describeSimulation(move.move)}
+                        {move.grade !== "best" &&
+                          describeSimulation(move.bestMove) &&
+                          `, best move ${describeSimulation(move.bestMove)}`}
+                      </p>
+                    )}
+                    {move.grade !== "best" && (
+                      <p className="text-xs text-muted-foreground">
+                        Best was {describeMove(move.bestMove)},{" "}
+                        {formatEquity(move.equityLost)} equity more
+                        {move.pointsLost > 0 &&
+                          `, and the top scoring play had ${move.pointsLost} more points`}
+                        .
+                      </p>
+                    )}
+                    {move.bestLine && (
+                      <p className="text-xs text-muted-foreground">
+                        Best endgame line ({formatSpread(move.bestMove.equity)}
+                        ): {move.bestLine.join(", ")}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </ScrollArea>
+          </>
+        )}
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
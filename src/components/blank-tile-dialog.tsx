@@ -12,6 +12,7 @@ import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { useEffect, useState } from "react";
 import { RotateCcw } from "lucide-react";
+import { getLanguage } from "@/lib/languages";
 
 interface BlankTileDialogProps {
   isOpen: boolean;
@@ -19,6 +20,8 @@ interface BlankTileDialogProps {
   onSelect: (letter: string) => void;
   onReturnToRack?: () => void;
   showReturnToRack: boolean;
+  /** The letters a blank can be, which are the game's alphabet. */
+  letters?: string[];
 }
 
 export function BlankTileDialog({
@@ -27,8 +30,10 @@ export function BlankTileDialog({
   onSelect,
   onReturnToRack,
   showReturnToRack,
+  letters = getLanguage().alphabet,
 }: BlankTileDialogProps) {
   const [letter, setLetter] = useState("");
+  const maxLength = Math.max(...letters.map((l) => l.length));
 
   useEffect(() => {
     if (isOpen) {
@@ -36,9 +41,9 @@ export function BlankTileDialog({
     }
   }, [isOpen]);
 
-  const handleSubmit = () => {
-    if (letter.match(/^[A-Z]$/)) {
-      onSelect(letter);
+  const handleSubmit = (selected = letter) => {
+    if (letters.includes(selected)) {
+      onSelect(selected);
       onOpenChange(false);
     }
   };
@@ -67,17 +72,31 @@ export function BlankTileDialog({
             value={letter}
             onChange={(e) => {
               const val = e.target.value.toUpperCase();
-              if (val.length <= 1 && val.match(/^[A-Z]*$/)) {
+              // Letters like the Spanish "CH" are typed one key at a time.
+              if (!val || letters.some((l) => l.startsWith(val))) {
                 setLetter(val);
               }
             }}
             onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
-            maxLength={1}
+            maxLength={maxLength}
             // Keep text as 3xl otherwise it is clipped by the input field
             className="w-20 h-20 text-3xl text-center font-bold uppercase"
             autoFocus
           />
         </div>
+        <div className="flex flex-wrap justify-center gap-1">
+          {letters.map((l) => (
+            <Button
+              key={l}
+              variant={l === letter ? "default" : "outline"}
+              size="sm"
+              className="w-10 font-bold"
+              onClick={() => handleSubmit(l)}
+            >
+              {l}
+            </Button>
+          ))}
+        </div>
         <DialogFooter className="sm:justify-between gap-2">
           {showReturnToRack ? (
             <Button variant="outline" onClick={handleReturn}>
@@ -90,7 +109,10 @@ export function BlankTileDialog({
             <Button variant="ghost" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSubmit} disabled={!letter}>
+            <Button
+              onClick={() => handleSubmit()}
+              disabled={!letters.includes(letter)}
+            >
               Select
             </Button>
           </div>
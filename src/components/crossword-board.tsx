@@ -1,6 +1,6 @@
 "use client";
 
-import type { GameState, PlacedTile } from "@/types";
+import type { GameView, PlacedTile } from "@/types";
 import {
   useMemo,
   useState,
@@ -22,6 +22,7 @@ import {
 } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
+import { getGameRules } from "@/lib/game-rules";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -37,7 +38,7 @@ import { CrosswordGuessDialog } from "./crossword-guess-dialog";
 import { ReportBugDialog } from "./ui/report-bug-dialog";
 
 interface CrosswordBoardProps {
-  gameState: GameState;
+  gameState: GameView;
 }
 
 interface Word {
@@ -87,9 +88,11 @@ export function CrosswordBoard({ gameState }: CrosswordBoardProps) {
     useState<HTMLDivElement | null>(null);
   const [boardContainerHeight, setBoardContainerHeight] = useState(400);
 
+  const boardSize = getGameRules(gameState).boardSize;
+
   const { wordStartPositions, playedTilesCoords, wordsByCell } = useMemo(() => {
-    const board = Array.from({ length: 15 }, () =>
-      Array(15).fill(null)
+    const board = Array.from({ length: boardSize }, () =>
+      Array(boardSize).fill(null)
     ) as (PlacedTile | null)[][];
     const coords = new Set<string>();
 
@@ -107,14 +110,14 @@ export function CrosswordBoard({ gameState }: CrosswordBoardProps) {
     let wordNumber = 1;
     const wordsByCell = new Map<string, { across?: number; down?: number }>();
 
-    for (let r = 0; r < 15; r++) {
-      for (let c = 0; c < 15; c++) {
+    for (let r = 0; r < boardSize; r++) {
+      for (let c = 0; c < boardSize; c++) {
         if (!board[r][c]) continue;
 
         const isAcrossStart =
-          (c === 0 || !board[r][c - 1]) && c < 14 && board[r][c + 1];
+          (c === 0 || !board[r][c - 1]) && c < boardSize - 1 && board[r][c + 1];
         const isDownStart =
-          (r === 0 || !board[r - 1]?.[c]) && r < 14 && board[r + 1]?.[c];
+          (r === 0 || !board[r - 1]?.[c]) && r < boardSize - 1 && board[r + 1]?.[c];
 
         if (isAcrossStart || isDownStart) {
           const key = `${r},${c}`;
@@ -127,7 +130,7 @@ export function CrosswordBoard({ gameState }: CrosswordBoardProps) {
           let word = "";
           let length = 0;
           const currentWordNumber = wordStartPositions[`${r},${c}`];
-          for (let i = c; i < 15 && board[r][i]; i++) {
+          for (let i = c; i < boardSize && board[r][i]; i++) {
             word += board[r][i]!.letter;
             length++;
             const cellKey = `${r},${i}`;
@@ -153,7 +156,7 @@ export function CrosswordBoard({ gameState }: CrosswordBoardProps) {
           let word = "";
           let length = 0;
           const currentWordNumber = wordStartPositions[`${r},${c}`];
-          for (let i = r; i < 15 && board[i]?.[c]; i++) {
+          for (let i = r; i < boardSize && board[i]?.[c]; i++) {
             word += board[i][c]!.letter;
             length++;
             const cellKey = `${i},${c}`;
@@ -190,7 +193,7 @@ export function CrosswordBoard({ gameState }: CrosswordBoardProps) {
       playedTilesCoords: coords,
       wordsByCell,
     };
-  }, [gameState.history]);
+  }, [gameState.history, boardSize]);
 
   const activeWordNums = useMemo(() => {
     if (!activeCell) return { across: null, down: null };
@@ -622,9 +625,9 @@ export function CrosswordBoard({ gameState }: CrosswordBoardProps) {
   let maxX = 0;
   let maxY = 0;
 
-  Array.from({ length: 15 * 15 }).forEach((_, index) => {
-    const x = Math.floor(index / 15);
-    const y = index % 15;
+  Array.from({ length: boardSize * boardSize }).forEach((_, index) => {
+    const x = Math.floor(index / boardSize);
+    const y = index % boardSize;
     const coordString = `${x},${y}`;
     if (playedTilesCoords.has(coordString)) {
       if (x < minX) minX = x;
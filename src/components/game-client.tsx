@@ -5,12 +5,11 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { LocalStorageKey, PLAYER_COLORS } from "@/lib/constants";
 import type {
-  GameState,
-  Player,
+  GameView,
   Tile,
   PlacedTile,
-  PlayedWord,
   BoardSquare,
+  ComputerDifficulty,
 } from "@/types";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -45,6 +44,9 @@ import {
   PencilRuler,
   HelpingHand,
   History,
+  LineChart,
+  Download,
+  Bot,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import GameBoard from "./game-board";
@@ -58,21 +60,38 @@ import {
   verifyWordAction,
   playTurn,
   addPlayer,
+  authenticatePlayer,
+  resignGame,
+  challengePlay,
+  acceptPlay,
+  checkGameClock,
+  setVacation,
 } from "@/app/actions";
 import Link from "next/link";
 import { PlayerAuthDialog } from "./player-auth-dialog";
 import WordBuilder from "./word-builder";
-import { calculateMoveScore } from "@/lib/scoring";
+import MoveNotationInput from "./move-notation-input";
+import { calculateMoveScore, describeScoreBreakdown } from "@/lib/scoring";
 import { cn } from "@/lib/utils";
 import SingleTile from "./tile";
 import { BlankTileDialog } from "./blank-tile-dialog";
 import { ReportBugDialog } from "./ui/report-bug-dialog";
 import { createInitialBoard } from "@/lib/game-data";
+import { DEFAULT_GAME_RULES, getGameRules, MIN_BAG_SIZE_TO_SWAP } from "@/lib/game-rules";
+import { getLanguage } from "@/lib/languages";
 import { HistoryDialog } from "./history-dialog";
-import { updateGame } from "@/lib/game-service";
+import { AnalysisDialog } from "./analysis-dialog";
 import { useLocalStorage } from "@/hooks/use-local-storage";
+import { getCurrentPlayer } from "@/lib/turns";
+import {
+  getNextTimeout,
+  getPlayerClock,
+  getTurnDeadline,
+} from "@/lib/game-clock";
+import GameLobby from "./game-lobby";
 
-const MAX_PLAYER_COUNT = 4;
+const POLL_INTERVAL = 5000;
+const CLOCK_CHECK_INTERVAL = 5000;
 
 export default function GameClient({
   gameId,
@@ -81,8 +100,10 @@ export default function GameClient({
   gameId: string;
   setLeaveGameHandler: (handler: () => void) => void;
 }) {
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [gameState, setGameState] = useState<GameView | null>(null);
   const [sha, setSha] = useState<string | null>(null);
+  // The latest sha, for callbacks that shouldn't change on every update.
+  const shaRef = useRef<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isPolling, setIsPolling] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -115,6 +136,7 @@ export default function GameClient({
   const [isReportBugOpen, setIsReportBugOpen] = useState(false);
   const [isTileBagOpen, setIsTileBagOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
   const [isResignConfirmOpen, setIsResignConfirmOpen] = useState(false);
   const [isBlankTileDialogOpen, setIsBlankTileDialogOpen] = useState(false);
   const [blankTileToStage, setBlankTileToStage] = useState<Tile | null>(null);
@@ -144,9 +166,14 @@ export default function GameClient({
       else setIsPolling(true);
       setError(null);
       try {
-        const gameData = await getGameState(gameId);
+        // Each player is sent their own view of the game.
+        const gameData = await getGameState(
+          gameId,
+          localStorage.getItem(`${LocalStorageKey.SESSION_TOKEN_}${gameId}`)
+        );
         if (gameData) {
-          if (gameData.sha !== sha) {
+          if (gameData.sha !== shaRef.current) {
+            shaRef.current = gameData.sha;
             setGameState(gameData.gameState);
             setSha(gameData.sha);
           }
@@ -163,36 +190,90 @@ export default function GameClient({
         else setIsPolling(false);
       }
     },
-    [gameId, sha]
+    [gameId]
   );
 
-  const turnsPlayed = useMemo(
-    () => gameState?.history?.filter(h => h.playerId).length ?? 0,
+  const currentPlayer = useMemo(
+    () => (gameState ? getCurrentPlayer(gameState) : null),
     [gameState]
   );
 
-  const currentPlayer = useMemo(() => {
-    if (!gameState || gameState.players.length === 0) return null;
+  // Clocks in timed games tick every second.
+  const [now, setNow] = useState(() => Date.now());
+  const isTimed =
+    gameState?.gamePhase === "playing" &&
+    !!getGameRules(gameState).timeControl;
+  useEffect(() => {
+    if (!isTimed) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [isTimed]);
+
+  const clocks = useMemo(
+    () =>
+      gameState && isTimed
+        ? Object.fromEntries(
+            gameState.players.map((p) => [
+              p.id,
+              getPlayerClock(gameState, p.id, now),
+            ])
+          )
+        : undefined,
+    [gameState, isTimed, now]
+  );
 
-    if (turnsPlayed < gameState.players.length) {
-      const playedPlayerIds = new Set(gameState.history.map((h) => h.playerId));
-      const waitingPlayers = gameState.players.filter(
-        (p) => !playedPlayerIds.has(p.id)
-      );
-      if (waitingPlayers.length > 0) {
-        return waitingPlayers[0];
-      }
-    }
+  const turnDeadline = useMemo(
+    () => (gameState ? getTurnDeadline(gameState) : null),
+    [gameState]
+  );
+  const hasTurnDeadlines = !!gameState && !!getGameRules(gameState).turnDeadline;
 
-    const playerIndex = turnsPlayed % gameState.players.length;
-    return gameState.players[playerIndex];
-  }, [gameState, turnsPlayed]);
+  // The server applies timeouts when asked, retrying in case its clock is
+  // behind this one.
+  const lastClockCheckRef = useRef(0);
+  useEffect(() => {
+    if (!gameState || !isTimed) return;
+    const timeout = getNextTimeout(gameState);
+    if (!timeout || timeout.at > now) return;
+    if (now - lastClockCheckRef.current < CLOCK_CHECK_INTERVAL) return;
+    lastClockCheckRef.current = now;
+    checkGameClock(gameId).then((result) => {
+      if (result.success) fetchGame(true);
+    });
+  }, [gameState, isTimed, now, gameId, fetchGame]);
 
   useEffect(() => {
     fetchGame();
-    const intervalId = setInterval(() => fetchGame(true), 5000);
-    return () => clearInterval(intervalId);
-  }, [fetchGame]);
+
+    // Updates are pushed by the server, polling is only used while the
+    // stream is disconnected.
+    let intervalId: ReturnType<typeof setInterval> | undefined;
+    const startPolling = () => {
+      intervalId ??= setInterval(() => fetchGame(true), POLL_INTERVAL);
+    };
+    const stopPolling = () => {
+      clearInterval(intervalId);
+      intervalId = undefined;
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return stopPolling;
+    }
+    const eventSource = new EventSource(`/api/games/${gameId}/events`);
+    eventSource.addEventListener("game-updated", (event) => {
+      const { sha: latestSha } = JSON.parse((event as MessageEvent).data);
+      if (latestSha !== shaRef.current) fetchGame(true);
+    });
+    // The stream starts with the current sha, so nothing is missed while
+    // it was down.
+    eventSource.onopen = stopPolling;
+    eventSource.onerror = startPolling;
+    return () => {
+      eventSource.close();
+      stopPolling();
+    };
+  }, [gameId, fetchGame]);
 
   const resetTurn = useCallback(() => {
     setStagedTiles({});
@@ -205,12 +286,15 @@ export default function GameClient({
   const handleLeaveGame = useCallback(() => {
     resetTurn();
     localStorage.removeItem(`${LocalStorageKey.PLAYER_ID_}${gameId}`);
+    localStorage.removeItem(`${LocalStorageKey.SESSION_TOKEN_}${gameId}`);
     setAuthenticatedPlayerId(null);
+    shaRef.current = null;
+    fetchGame(true);
     toast({
       title: "Left Game",
       description: "You have returned to the lobby.",
     });
-  }, [gameId, toast, resetTurn]);
+  }, [gameId, toast, resetTurn, fetchGame]);
 
   useEffect(() => {
     if (
@@ -302,12 +386,15 @@ export default function GameClient({
       if (!gameState.players.some((p) => p.id === authenticatedPlayerId)) {
         setAuthenticatedPlayerId(null);
         localStorage.removeItem(`${LocalStorageKey.PLAYER_ID_}${gameId}`);
+        localStorage.removeItem(`${LocalStorageKey.SESSION_TOKEN_}${gameId}`);
       }
     }
   }, [gameState, authenticatedPlayerId, gameId]);
 
   const authenticatedPlayer = useMemo(() => {
     if (!gameState || !authenticatedPlayerId) return null;
+    // Without a valid session the game is seen as a spectator.
+    if (gameState.viewerId !== authenticatedPlayerId) return null;
     return (
       gameState.players.find((p) => p.id === authenticatedPlayerId) ?? null
     );
@@ -342,13 +429,9 @@ export default function GameClient({
   }, [gameState, newPlayerName]);
 
   const numPlayers = gameState?.players.length || 0;
-  const lobbyFull = numPlayers >= MAX_PLAYER_COUNT;
-  const currentTurnsPlayed = gameState?.history.length || 0;
-  const currentRoundsPlayed =
-    numPlayers && Math.floor(currentTurnsPlayed / numPlayers);
-  const gameStarted =
-    (numPlayers > 1 && currentRoundsPlayed > 0) ||
-    (numPlayers < 2 && currentTurnsPlayed > 1);
+  const lobbyFull =
+    !!gameState && numPlayers >= getGameRules(gameState).maxPlayers;
+  const gameStarted = !!gameState && gameState.gamePhase !== "lobby";
 
   const canJoinGame = useMemo(() => {
     if (!gameState) return false;
@@ -361,6 +444,11 @@ export default function GameClient({
     return true;
   }, [gameState, existingPlayer, gameStarted, lobbyFull]);
 
+  // The latest play, while it can still be challenged.
+  const pendingPlay = gameState?.pendingPlay
+    ? gameState.history[gameState.pendingPlay.historyIndex]
+    : undefined;
+
   const isMyTurn = useMemo(() => {
     return authenticatedPlayerId === currentPlayer?.id;
   }, [authenticatedPlayerId, currentPlayer]);
@@ -372,9 +460,11 @@ export default function GameClient({
   }, [authenticatedPlayer, stagedTiles]);
 
   const wordBuilderSlots = useMemo((): readonly BoardSquare[] => {
-    const MAX_EMPTY_SLOTS = 7;
+    const maxEmptySlots = gameState
+      ? getGameRules(gameState).rackSize
+      : DEFAULT_GAME_RULES.rackSize;
     const defaultEmptySlots = Object.freeze(
-      Array<BoardSquare>(MAX_EMPTY_SLOTS).fill({
+      Array<BoardSquare>(maxEmptySlots).fill({
         tile: null,
         x: -1,
         y: -1,
@@ -396,11 +486,12 @@ export default function GameClient({
         currentX--;
       }
     }
+    const boardSize = gameState.board.length;
     let emptySlotsCount = 0;
     while (
-      ((playDirection === "horizontal" && currentY < 15) ||
-        (playDirection === "vertical" && currentX < 15)) &&
-      emptySlotsCount < MAX_EMPTY_SLOTS
+      ((playDirection === "horizontal" && currentY < boardSize) ||
+        (playDirection === "vertical" && currentX < boardSize)) &&
+      emptySlotsCount < maxEmptySlots
     ) {
       const boardSquare = gameState.board[currentX][currentY];
       slots.push(boardSquare);
@@ -443,7 +534,7 @@ export default function GameClient({
       const currentX = playDirection === "vertical" ? startX + i : startX;
       const currentY = playDirection === "horizontal" ? startY + i : startY;
 
-      if (currentX >= 15 || currentY >= 15) break;
+      if (!gameState?.board[currentX]?.[currentY]) break;
 
       const boardSquare = wordBuilderSlots[i];
 
@@ -464,26 +555,14 @@ export default function GameClient({
     gameState,
   ]);
 
-  const tileBagContents = useMemo(() => {
-    if (!gameState?.tileBag) return [];
-
-    const counts: Record<string, { tile: Tile; count: number }> = {};
-
-    for (const tile of gameState.tileBag) {
-      const key = tile.letter || "BLANK";
-      if (!counts[key]) {
-        const displayTile = tile.letter ? tile : { ...tile, letter: "" };
-        counts[key] = { tile: displayTile, count: 0 };
-      }
-      counts[key].count++;
-    }
-
-    return Object.values(counts).sort((a, b) => {
-      if (a.tile.letter === "") return 1;
-      if (b.tile.letter === "") return -1;
-      return a.tile.letter.localeCompare(b.tile.letter);
-    });
-  }, [gameState?.tileBag]);
+  const unseenTileContents = useMemo(
+    () =>
+      (gameState?.unseenTiles ?? []).map(({ letter, points, count }) => ({
+        tile: { id: letter, letter: letter.trim(), points },
+        count,
+      })),
+    [gameState?.unseenTiles]
+  );
 
   const handleSuggestWord = async () => {
     if (!newWord.trim()) return;
@@ -535,8 +614,9 @@ export default function GameClient({
 
     const result = await playTurn({
       gameId,
-      player: authenticatedPlayer,
+      sessionToken: getSessionToken(),
       move,
+      expectedSha: sha ?? undefined,
     });
 
     if (!result.success) {
@@ -552,6 +632,22 @@ export default function GameClient({
     setIsLoading(false);
   };
 
+  const handleRespondToPlay = async (isChallenge: boolean) => {
+    if (!authenticatedPlayer) return;
+    setIsLoading(true);
+    const respond = isChallenge ? challengePlay : acceptPlay;
+    const result = await respond(gameId, getSessionToken(), sha ?? undefined);
+    if (!result.success) {
+      toast({
+        title: isChallenge ? "Challenge Failed" : "Action Failed",
+        description: result.error || "The game state may have changed.",
+        variant: "destructive",
+      });
+    }
+    await fetchGame();
+    setIsLoading(false);
+  };
+
   const joinGame = async () => {
     if (!newPlayerName.trim() || !newPlayerCode.trim()) {
       toast({
@@ -568,8 +664,13 @@ export default function GameClient({
     setIsLoading(true);
 
     if (existingPlayer) {
-      if (existingPlayer.code === trimmedCode) {
-        handleAuth(existingPlayer.id);
+      const authResult = await authenticatePlayer(
+        gameId,
+        existingPlayer.id,
+        trimmedCode
+      );
+      if (authResult.success && authResult.sessionToken) {
+        await handleAuth(existingPlayer.id, authResult.sessionToken);
         toast({
           title: "Welcome back!",
           description: `You have rejoined the game as ${existingPlayer.name}.`,
@@ -589,8 +690,8 @@ export default function GameClient({
     try {
       const result = await addPlayer(gameId, trimmedName, trimmedCode);
 
-      if (result.success && result.player) {
-        handleAuth(result.player.id);
+      if (result.success && result.player && result.sessionToken) {
+        await handleAuth(result.player.id, result.sessionToken);
         toast({
           title: `Welcome, ${result.player.name}!`,
           description: "You have successfully joined the game.",
@@ -645,6 +746,18 @@ export default function GameClient({
     });
   };
 
+  const handleStageMove = (
+    start: { x: number; y: number },
+    direction: "horizontal" | "vertical",
+    tiles: Tile[]
+  ) => {
+    setSelectedBoardPos(start);
+    setPlayDirection(direction);
+    setSelectedBuilderIndex(null);
+    setSelectedRackTileId(null);
+    setStagedTiles(Object.fromEntries(tiles.map((tile, i) => [i, tile])));
+  };
+
   const handleRackClick = () => {
     if (selectedBuilderIndex !== null) {
       const newStagedTiles = { ...stagedTiles };
@@ -830,7 +943,10 @@ export default function GameClient({
     description: string = "",
     score: number = 0
   ) => {
-    getWordSuggestions(gameState?.board!, currentPlayer?.rack!).then(
+    getWordSuggestions(gameState?.board!, authenticatedPlayer?.rack!, {
+      limit: 1,
+      rules: gameState ? getGameRules(gameState) : undefined,
+    }).then(
       (suggestions) => {
         const bestMove = suggestions.length > 0 ? suggestions[0] : null;
         if (bestMove && bestMove.score > score) {
@@ -854,17 +970,16 @@ export default function GameClient({
       return;
     }
 
-    const tempBoard = createInitialBoard();
+    const rules = getGameRules(gameState);
+    const tempBoard = createInitialBoard(rules);
     gameState.history.forEach((h) =>
       h.tiles.forEach((t) => {
         if (tempBoard[t.x]?.[t.y]) tempBoard[t.x][t.y].tile = t;
       })
     );
 
-    const { score, words: allWords } = calculateMoveScore(
-      tempPlacedTiles,
-      tempBoard
-    );
+    const scoreBreakdown = calculateMoveScore(tempPlacedTiles, tempBoard, rules);
+    const { score, words: allWords } = scoreBreakdown;
 
     if (allWords.length === 0) {
       toast({
@@ -875,9 +990,13 @@ export default function GameClient({
       return;
     }
 
-    const validationPromises = allWords.map((wordInfo) =>
-      verifyWordAction(wordInfo.word)
-    );
+    // With challenges, phony words are left for the opponents to catch.
+    const validationPromises =
+      rules.challengeMode === "void"
+        ? allWords.map((wordInfo) =>
+            verifyWordAction(wordInfo.word, rules.language)
+          )
+        : [];
     const validationResults = await Promise.all(validationPromises);
     const invalidWordResult = validationResults.find(
       (result) => !result.isValid
@@ -896,7 +1015,7 @@ export default function GameClient({
 
     await includeBestWordInToast(
       `Played ${allWords[0].word}`,
-      `You scored ${score} points.`,
+      `You scored ${score} points (${describeScoreBreakdown(scoreBreakdown)}).`,
       score
     );
 
@@ -928,10 +1047,13 @@ export default function GameClient({
       return;
     }
 
-    if (gameState && gameState.tileBag.length < tilesToSwap.length) {
+    if (
+      gameState &&
+      gameState.tileBagCount < Math.max(tilesToSwap.length, MIN_BAG_SIZE_TO_SWAP)
+    ) {
       toast({
         title: "Cannot Swap",
-        description: "Not enough tiles left in the bag to swap.",
+        description: `Tiles can only be swapped with at least ${MIN_BAG_SIZE_TO_SWAP} left in the bag.`,
         variant: "destructive",
       });
       return;
@@ -954,92 +1076,95 @@ export default function GameClient({
     setStagedTiles({});
   };
 
-  const resignGame = () => {
+  const openResignConfirm = () => {
     setIsResignConfirmOpen(true);
   };
 
   const handleConfirmResign = async () => {
     if (!gameState || !authenticatedPlayer) return;
 
-    const action = (currentState: GameState): GameState | null => {
-      const newGameState: GameState = JSON.parse(JSON.stringify(currentState));
-      const playerToResign = newGameState.players.find(
-        (p: Player) => p.id === authenticatedPlayer.id
+    const gameContinues =
+      gameState.players.length > 2 &&
+      gameState.players.some(
+        (p) => p.id !== authenticatedPlayer.id && !p.isComputer
       );
-
-      if (!playerToResign) {
-        toast({
-          title: "Error",
-          description: "Could not find your player data to resign.",
-          variant: "destructive",
-        });
-        return null;
-      }
-
-      const resignEvent: PlayedWord = {
-        playerId: playerToResign.id,
-        playerName: playerToResign.name,
-        word: "[RESIGNED]",
-        tiles: [],
-        score: 0,
-        isResign: true,
-        timestamp: new Date().toISOString(),
-      };
-      newGameState.history.push(resignEvent);
-
-      if (currentState.players.length > 2) {
-        newGameState.tileBag.push(...playerToResign.rack);
-        newGameState.players = newGameState.players.filter(
-          (p: Player) => p.id !== playerToResign.id
-        );
-        toast({
-          title: "You have resigned",
-          description: "The game continues without you.",
-          variant: "destructive",
-        });
-        localStorage.removeItem(`${LocalStorageKey.PLAYER_ID_}${gameId}`);
-      } else {
-        newGameState.gamePhase = "ended";
-        const remainingPlayer = newGameState.players.find(
-          (p: Player) => p.id !== playerToResign.id
-        );
-        newGameState.endStatus = remainingPlayer
-          ? `${remainingPlayer.name} wins as ${playerToResign.name} resigned`
-          : `${playerToResign.name} resigned`;
-        toast({
-          title: "You have resigned",
-          description: "The game is now over.",
-          variant: "destructive",
-        });
-      }
-      setIsResignConfirmOpen(false);
-      return newGameState;
-    };
-
-    const gameData = await getGameState(gameId);
-    if (gameData) {
-      const { gameState: currentGameState, sha: currentSha } = gameData;
-      const nextState = action(currentGameState);
-      if (nextState && currentSha) {
-        await updateGame(
-          gameId,
-          nextState,
-          currentSha,
-          `Player ${authenticatedPlayer.name} resigned.`
-        );
-        await fetchGame();
-      }
+    const result = await resignGame(
+      gameId,
+      getSessionToken(),
+      sha ?? undefined
+    );
+    setIsResignConfirmOpen(false);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
     }
+    toast({
+      title: "You have resigned",
+      description: gameContinues
+        ? "The game continues without you."
+        : "The game is now over.",
+      variant: "destructive",
+    });
+    if (gameContinues) {
+      localStorage.removeItem(`${LocalStorageKey.PLAYER_ID_}${gameId}`);
+      localStorage.removeItem(`${LocalStorageKey.SESSION_TOKEN_}${gameId}`);
+    }
+    await fetchGame();
   };
 
-  const handleAuth = (playerId: string) => {
-    setAuthenticatedPlayerId(playerId);
+  const getSessionToken = () =>
+    localStorage.getItem(`${LocalStorageKey.SESSION_TOKEN_}${gameId}`) ?? "";
+
+  const handleAuth = async (playerId: string, sessionToken: string) => {
     localStorage.setItem(`${LocalStorageKey.PLAYER_ID_}${gameId}`, playerId);
+    localStorage.setItem(
+      `${LocalStorageKey.SESSION_TOKEN_}${gameId}`,
+      sessionToken
+    );
+    // The player's view of the game is fetched before switching to it.
+    shaRef.current = null;
+    await fetchGame(true);
+    setAuthenticatedPlayerId(playerId);
+  };
+
+  const handleToggleVacation = async () => {
+    if (!authenticatedPlayer) return;
+    const isOnVacation = !authenticatedPlayer.vacationStartedAt;
+    setIsLoading(true);
+    const result = await setVacation(gameId, getSessionToken(), isOnVacation);
+    if (result.success) {
+      toast({
+        title: isOnVacation ? "On Vacation" : "Welcome Back",
+        description: isOnVacation
+          ? "Your turn deadlines are paused until you come back."
+          : "Your turn deadlines are running again.",
+      });
+      await fetchGame(true);
+    } else {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
   };
 
-  const handleReplaceWithComputer = async (playerId: string) => {
+  const handleReplaceWithComputer = async (
+    playerId: string,
+    difficulty: ComputerDifficulty
+  ) => {
     setIsLoading(true);
-    const result = await replacePlayerWithComputer(gameId, playerId);
+    const result = await replacePlayerWithComputer(
+      gameId,
+      getSessionToken(),
+      playerId,
+      difficulty
+    );
     if (result.success) {
       toast({
         title: "Player Replaced",
@@ -1102,6 +1227,7 @@ export default function GameClient({
     <HistoryDialog
       isOpen={isHistoryOpen}
       onOpenChange={setIsHistoryOpen}
+      gameId={gameId}
       history={gameState.history}
       players={gameState.players}
     />
@@ -1140,20 +1266,38 @@ export default function GameClient({
               authenticatedPlayerId={authenticatedPlayerId}
               isGameOver={gameState.gamePhase === "ended"}
               onReplacePlayer={handleReplaceWithComputer}
-              lastMoveTimestamp={
-                gameState.history[gameState.history.length - 1]?.timestamp
-              }
+              turnDeadline={turnDeadline}
+              hasTurnDeadlines={hasTurnDeadlines}
               onShowHistory={() => setIsHistoryOpen(true)}
               gameHistoryLength={gameState.history.length}
-              gameCreatedAt={gameState.createdAt}
-              tileBagCount={gameState.tileBag.length}
+              tileBagCount={gameState.tileBagCount}
+              result={gameState.result}
             />
-            <Button asChild className="mt-4 w-full">
+            <Button
+              variant="outline"
+              className="mt-4 w-full"
+              onClick={() => setIsAnalysisOpen(true)}
+            >
+              <LineChart className="mr-2 h-4 w-4" /> Analyse Game
+            </Button>
+            <Button variant="outline" asChild className="mt-2 w-full">
+              <a href={`/api/games/${gameState.gameId}/gcg`} download>
+                <Download className="mr-2 h-4 w-4" /> Export GCG
+              </a>
+            </Button>
+            <Button asChild className="mt-2 w-full">
               <Link href="/play">Play Again</Link>
             </Button>
           </CardContent>
         </Card>
         {historyDialog}
+        <AnalysisDialog
+          isOpen={isAnalysisOpen}
+          onOpenChange={setIsAnalysisOpen}
+          gameId={gameState.gameId}
+          history={gameState.history}
+          players={gameState.players}
+        />
       </div>
     );
   }
@@ -1172,7 +1316,11 @@ export default function GameClient({
                 )}
               >
                 {canJoinGame
-                  ? `The game is in progress. ${
+                  ? `${
+                      gameState.gamePhase === "lobby"
+                        ? "The game hasn't started yet."
+                        : "The game is in progress."
+                    } ${
                       existingPlayer
                         ? "Enter your code to rejoin"
                         : "Create your player to join"
@@ -1249,7 +1397,7 @@ export default function GameClient({
                 <div className="space-y-2 pt-4">
                   <h3 className="text-lg font-medium flex items-center">
                     <Users className="mr-2 h-5 w-5" /> Players Already Joined (
-                    {gameState.players.length}/4)
+                    {gameState.players.length}/{getGameRules(gameState).maxPlayers})
                   </h3>
                   <div className="bg-muted/50 rounded-lg p-4 min-h-[50px] space-y-2">
                     {gameState.players.length > 0 ? (
@@ -1262,6 +1410,9 @@ export default function GameClient({
                             {i + 1}.
                           </span>
                           <span className="ml-2">{p.name}</span>
+                          {p.isComputer && (
+                            <Bot className="ml-auto h-4 w-4 text-muted-foreground" />
+                          )}
                         </div>
                       ))
                     ) : (
@@ -1288,13 +1439,12 @@ export default function GameClient({
             currentPlayerId={currentPlayer?.id || ""}
             authenticatedPlayerId={authenticatedPlayerId}
             onReplacePlayer={handleReplaceWithComputer}
-            lastMoveTimestamp={
-              gameState.history[gameState.history.length - 1]?.timestamp
-            }
+            turnDeadline={turnDeadline}
+            hasTurnDeadlines={hasTurnDeadlines}
             onShowHistory={() => setIsHistoryOpen(true)}
             gameHistoryLength={gameState.history.length}
-            gameCreatedAt={gameState.createdAt}
-            tileBagCount={gameState.tileBag.length}
+            tileBagCount={gameState.tileBagCount}
+            clocks={clocks}
           />
         </div>
         {historyDialog}
@@ -1305,6 +1455,7 @@ export default function GameClient({
   if (!authenticatedPlayer && authenticatedPlayerId) {
     return (
       <PlayerAuthDialog
+        gameId={gameId}
         players={gameState.players.filter(
           (p) => p.id === authenticatedPlayerId
         )}
@@ -1313,6 +1464,19 @@ export default function GameClient({
     );
   }
 
+  if (gameState.gamePhase === "lobby" && authenticatedPlayerId) {
+    return (
+      <GameLobby
+        gameId={gameId}
+        gameState={gameState}
+        authenticatedPlayerId={authenticatedPlayerId}
+        sessionToken={getSessionToken()}
+        onChange={() => fetchGame(true)}
+        onLeave={handleLeaveGame}
+      />
+    );
+  }
+
   if (!currentPlayer) {
     return (
       <div className="container mx-auto max-w-2xl text-center p-10">
@@ -1340,6 +1504,7 @@ export default function GameClient({
                   isMyTurn={false}
                   playerColor={playerColor}
                   selectedRackTileId={selectedRackTileId}
+                  rackSize={getGameRules(gameState).rackSize}
                 />
               )}
             </div>
@@ -1372,6 +1537,7 @@ export default function GameClient({
                 isMyTurn={isMyTurn}
                 playerColor={playerColor}
                 selectedRackTileId={selectedRackTileId}
+                rackSize={getGameRules(gameState).rackSize}
               />
               {gameState && (
                 <WordBuilder
@@ -1388,6 +1554,18 @@ export default function GameClient({
                     setStagedTileToReassign(index);
                     setIsBlankTileDialogOpen(true);
                   }}
+                  rules={getGameRules(gameState)}
+                />
+              )}
+              {gameState && (
+                <MoveNotationInput
+                  board={gameState.board}
+                  rack={authenticatedPlayer.rack}
+                  rules={getGameRules(gameState)}
+                  canSubmit={isMyTurn && !isLoading}
+                  onStage={handleStageMove}
+                  onClear={resetTurn}
+                  onSubmit={() => handlePlayWord()}
                 />
               )}
             </div>
@@ -1406,6 +1584,33 @@ export default function GameClient({
               </CardDescription>
             </CardHeader>
             <CardContent className="flex flex-col gap-2">
+              {pendingPlay &&
+                pendingPlay.playerId !== authenticatedPlayer.id && (
+                  <div className="rounded-md border p-2 text-sm space-y-2">
+                    <p>
+                      {pendingPlay.playerName} played {pendingPlay.word}. Do
+                      you accept it?
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="destructive"
+                        className="flex-1"
+                        disabled={isLoading}
+                        onClick={() => handleRespondToPlay(true)}
+                      >
+                        Challenge
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        disabled={!isMyTurn || isLoading}
+                        onClick={() => handleRespondToPlay(false)}
+                      >
+                        Accept
+                      </Button>
+                    </div>
+                  </div>
+                )}
               <Button
                 onClick={() => handlePlayWord()}
                 disabled={
@@ -1421,10 +1626,10 @@ export default function GameClient({
               </Button>
               <Button
                 variant="ghost"
-                disabled={isLoading || !gameState?.tileBag.length}
+                disabled={isLoading || !gameState?.tileBagCount}
                 onClick={showTileBag}
               >
-                {`${gameState.tileBag.length} Tiles Left`}
+                {`${gameState.tileBagCount} Tiles Left`}
               </Button>
               <Button
                 variant="outline"
@@ -1447,10 +1652,22 @@ export default function GameClient({
               >
                 Reset Rack
               </Button>
+              {hasTurnDeadlines && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleToggleVacation}
+                  disabled={isLoading}
+                >
+                  {authenticatedPlayer?.vacationStartedAt
+                    ? "End Vacation"
+                    : "Go on Vacation"}
+                </Button>
+              )}
               <Button
                 variant="destructive"
                 className="w-full"
-                onClick={resignGame}
+                onClick={openResignConfirm}
                 disabled={isLoading}
               >
                 Resign Game
@@ -1462,13 +1679,12 @@ export default function GameClient({
             currentPlayerId={currentPlayer.id}
             authenticatedPlayerId={authenticatedPlayerId}
             onReplacePlayer={handleReplaceWithComputer}
-            lastMoveTimestamp={
-              gameState.history[gameState.history.length - 1]?.timestamp
-            }
+            turnDeadline={turnDeadline}
+            hasTurnDeadlines={hasTurnDeadlines}
             onShowHistory={() => setIsHistoryOpen(true)}
             gameHistoryLength={gameState.history.length}
-            gameCreatedAt={gameState.createdAt}
-            tileBagCount={gameState.tileBag.length}
+            tileBagCount={gameState.tileBagCount}
+            clocks={clocks}
           />
           <Card>
             <CardHeader>
@@ -1581,11 +1797,13 @@ export default function GameClient({
           <DialogHeader>
             <DialogTitle>Remaining Tiles</DialogTitle>
             <DialogDescription>
-              There are {gameState.tileBag.length} tiles left in the bag.
+              There are {gameState.tileBagCount} tiles left in the bag.
+              These are the tiles you haven&apos;t seen yet, in the bag or on
+              other players&apos; racks.
             </DialogDescription>
           </DialogHeader>
           <div className="grid grid-cols-3 sm:grid-cols-4 gap-x-2 gap-y-4 py-4 max-h-[60vh] overflow-y-auto">
-            {tileBagContents.map(({ tile, count }) => (
+            {unseenTileContents.map(({ tile, count }) => (
               <div
                 key={tile.id || tile.letter}
                 className="flex items-center gap-2"
@@ -1648,6 +1866,11 @@ export default function GameClient({
         onSelect={handleBlankTileSelect}
         onReturnToRack={handleReturnTileToRack}
         showReturnToRack={stagedTileToReassign !== null || (selectedBuilderIndex !== null && !!stagedTiles[selectedBuilderIndex])}
+        letters={
+          gameState
+            ? getLanguage(getGameRules(gameState).language).alphabet
+            : undefined
+        }
       />
       {historyDialog}
     </div>
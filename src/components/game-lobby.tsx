@@ -0,0 +1,500 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  ChallengeMode,
+  ComputerDifficulty,
+  DeadlineAction,
+  GameRules,
+  GameView,
+  LanguageCode,
+} from "@/types";
+import {
+  addPlayer,
+  changeGameRules,
+  removePlayer,
+  reorderPlayers,
+  resignGame,
+  setPlayerReady,
+  startGame,
+} from "@/app/actions";
+import { Button } from "./ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  ArrowDown,
+  ArrowUp,
+  Bot,
+  Check,
+  Copy,
+  Crown,
+  LogOut,
+  Play,
+  Users,
+  X,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  COMPUTER_DIFFICULTIES,
+  DEFAULT_COMPUTER_DIFFICULTY,
+  getDifficultyLabel,
+} from "@/lib/computer-player";
+import {
+  CHALLENGE_MODE_OPTIONS,
+  DEADLINE_ACTION_OPTIONS,
+  GAME_RULES_PRESETS,
+  GameRulesPreset,
+  getGameRules,
+  getRulesPreset,
+  getTimeControlPreset,
+  RULES_PRESET_OPTIONS,
+  TIME_CONTROL_OPTIONS,
+  TURN_DEADLINE_OPTIONS,
+} from "@/lib/game-rules";
+import { getLanguage, LANGUAGE_OPTIONS } from "@/lib/languages";
+
+interface GameLobbyProps {
+  gameId: string;
+  gameState: GameView;
+  authenticatedPlayerId: string;
+  sessionToken: string;
+  onChange: () => Promise<void>;
+  onLeave: () => void;
+}
+
+/**
+ * Where players wait for the game to start. The host sets the rules, adds
+ * computer players and the seating order, and starts the game once everyone
+ * else is ready.
+ */
+export default function GameLobby({
+  gameId,
+  gameState,
+  authenticatedPlayerId,
+  sessionToken,
+  onChange,
+  onLeave,
+}: GameLobbyProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [computerDifficulty, setComputerDifficulty] =
+    useState<ComputerDifficulty>(DEFAULT_COMPUTER_DIFFICULTY);
+  const { toast } = useToast();
+
+  const { players, hostId } = gameState;
+  const rules = getGameRules(gameState);
+  const isHost = authenticatedPlayerId === hostId;
+  const host = players.find((p) => p.id === hostId);
+  const me = players.find((p) => p.id === authenticatedPlayerId);
+  const notReady = players.filter((p) => p.id !== hostId && !p.isReady);
+  const boardLabel =
+    RULES_PRESET_OPTIONS.find(({ preset }) => preset === getRulesPreset(rules))
+      ?.label ?? "Custom board";
+  const language = getLanguage(rules.language);
+  const challengeModeLabel = CHALLENGE_MODE_OPTIONS.find(
+    ({ mode }) => mode === rules.challengeMode
+  )?.label;
+  const timeControlPreset = getTimeControlPreset(rules.timeControl);
+  const timeControlLabel =
+    TIME_CONTROL_OPTIONS.find(({ preset }) => preset === timeControlPreset)
+      ?.label ?? "Custom clock";
+  const { turnDeadline } = rules;
+  const turnDeadlineLabel = turnDeadline
+    ? `${
+        TURN_DEADLINE_OPTIONS.find(({ hours }) => hours === turnDeadline.hours)
+          ?.label ?? `${turnDeadline.hours} hours a move`
+      }, ${DEADLINE_ACTION_OPTIONS.find(
+        ({ action }) => action === turnDeadline.action
+      )?.label.toLowerCase()}`
+    : TURN_DEADLINE_OPTIONS[0].label;
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    errorTitle: string
+  ) => {
+    setIsUpdating(true);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast({
+          title: errorTitle,
+          description: result.error || "An unknown error occurred.",
+          variant: "destructive",
+        });
+      }
+      return result.success;
+    } finally {
+      await onChange();
+      setIsUpdating(false);
+    }
+  };
+
+  const movePlayer = (index: number, offset: number) => {
+    const playerIds = players.map((p) => p.id);
+    const [playerId] = playerIds.splice(index, 1);
+    playerIds.splice(index + offset, 0, playerId);
+    return runAction(
+      () => reorderPlayers(gameId, sessionToken, playerIds),
+      "Failed to Reorder Players"
+    );
+  };
+
+  const updateRules = (changes: Partial<GameRules>) =>
+    runAction(
+      () => changeGameRules(gameId, sessionToken, { ...rules, ...changes }),
+      "Failed to Change Rules"
+    );
+
+  const handleLeave = async () => {
+    const hasLeft = await runAction(
+      () => resignGame(gameId, sessionToken),
+      "Failed to Leave"
+    );
+    if (hasLeft) onLeave();
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="container mx-auto max-w-md p-4">
+      <Card className="shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-3xl text-center">Game Lobby</CardTitle>
+          <CardDescription className="text-center">
+            {isHost
+              ? "Set up the game and start it when everyone is ready."
+              : `Waiting for ${host?.name ?? "the host"} to start the game.`}
+          </CardDescription>
+          <div className="flex items-center justify-center gap-2 pt-4">
+            <p className="text-4xl font-bold tracking-[0.3em] text-primary bg-muted px-4 py-2 rounded-lg">
+              {gameId}
+            </p>
+            <Button variant="ghost" size="icon" onClick={handleCopyLink}>
+              {copied ? (
+                <Check className="h-5 w-5 text-green-500" />
+              ) : (
+                <Copy className="h-5 w-5" />
+              )}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium flex items-center">
+              <Users className="mr-2 h-5 w-5" /> Players ({players.length}/
+              {rules.maxPlayers})
+            </h3>
+            <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+              {players.map((p, i) => (
+                <div
+                  key={p.id}
+                  className="flex items-center gap-2 bg-background p-2 rounded-md shadow-sm"
+                >
+                  <span className="font-bold text-primary">{i + 1}.</span>
+                  <span
+                    className={cn(p.id === authenticatedPlayerId && "font-bold")}
+                  >
+                    {p.name}
+                  </span>
+                  {p.id === hostId && (
+                    <Crown className="h-4 w-4 text-yellow-500" />
+                  )}
+                  {p.isComputer && (
+                    <Bot className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span
+                    className={cn(
+                      "ml-auto text-xs",
+                      p.isReady || p.id === hostId
+                        ? "text-green-600"
+                        : "text-muted-foreground"
+                    )}
+                  >
+                    {p.id === hostId ? "Host" : p.isReady ? "Ready" : "Not ready"}
+                  </span>
+                  {isHost && (
+                    <div className="flex">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label={`Move ${p.name} up`}
+                        disabled={isUpdating || i === 0}
+                        onClick={() => movePlayer(i, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label={`Move ${p.name} down`}
+                        disabled={isUpdating || i === players.length - 1}
+                        onClick={() => movePlayer(i, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label={`Remove ${p.name}`}
+                        disabled={isUpdating || p.id === hostId}
+                        onClick={() =>
+                          runAction(
+                            () => removePlayer(gameId, sessionToken, p.id),
+                            "Failed to Remove Player"
+                          )
+                        }
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Everyone draws a tile when the game starts, closest to A goes
+              first and play follows this order.
+            </p>
+          </div>
+
+          {!isHost && (
+            <p className="text-sm text-muted-foreground">
+              {language.name}, {boardLabel}, {challengeModeLabel},{" "}
+              {timeControlLabel},{" "}
+              {turnDeadlineLabel.toLowerCase()}.
+            </p>
+          )}
+          {isHost ? (
+            <div className="space-y-2">
+              <Select
+                value={language.code}
+                disabled={isUpdating}
+                onValueChange={(code) =>
+                  updateRules({ language: code as LanguageCode })
+                }
+              >
+                <SelectTrigger aria-label="Language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map(({ code, name }) => (
+                    <SelectItem key={code} value={code}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={getRulesPreset(rules)}
+                disabled={isUpdating}
+                onValueChange={(preset) => {
+                  const { boardSize, premiumSquares } =
+                    GAME_RULES_PRESETS[preset as GameRulesPreset];
+                  updateRules({ boardSize, premiumSquares });
+                }}
+              >
+                <SelectTrigger aria-label="Board">
+                  <SelectValue placeholder="Custom board" />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULES_PRESET_OPTIONS.map(({ preset, label }) => (
+                    <SelectItem key={preset} value={preset}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rules.challengeMode}
+                disabled={isUpdating}
+                onValueChange={(challengeMode) =>
+                  updateRules({ challengeMode: challengeMode as ChallengeMode })
+                }
+              >
+                <SelectTrigger aria-label="Challenges">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHALLENGE_MODE_OPTIONS.map(({ mode, label }) => (
+                    <SelectItem key={mode} value={mode}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={timeControlPreset}
+                disabled={isUpdating}
+                onValueChange={(preset) =>
+                  updateRules({
+                    timeControl: TIME_CONTROL_OPTIONS.find(
+                      (option) => option.preset === preset
+                    )?.timeControl,
+                  })
+                }
+              >
+                <SelectTrigger aria-label="Clock">
+                  <SelectValue placeholder="Custom clock" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_CONTROL_OPTIONS.map(({ preset, label }) => (
+                    <SelectItem key={preset} value={preset}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Select
+                  value={String(turnDeadline?.hours ?? 0)}
+                  disabled={isUpdating}
+                  onValueChange={(value) => {
+                    const hours = Number(value);
+                    updateRules({
+                      turnDeadline: hours
+                        ? { hours, action: turnDeadline?.action ?? "pass" }
+                        : undefined,
+                    });
+                  }}
+                >
+                  <SelectTrigger aria-label="Turn deadline">
+                    <SelectValue placeholder="Custom deadline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TURN_DEADLINE_OPTIONS.map(({ hours, label }) => (
+                      <SelectItem key={hours} value={String(hours)}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {turnDeadline && (
+                  <Select
+                    value={turnDeadline.action}
+                    disabled={isUpdating}
+                    onValueChange={(action) =>
+                      updateRules({
+                        turnDeadline: {
+                          ...turnDeadline,
+                          action: action as DeadlineAction,
+                        },
+                      })
+                    }
+                  >
+                    <SelectTrigger aria-label="When a deadline is missed">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEADLINE_ACTION_OPTIONS.map(({ action, label }) => (
+                        <SelectItem key={action} value={action}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {players.length < rules.maxPlayers && (
+                <div className="flex gap-2">
+                  <Select
+                    value={computerDifficulty}
+                    onValueChange={(value) =>
+                      setComputerDifficulty(value as ComputerDifficulty)
+                    }
+                  >
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPUTER_DIFFICULTIES.map((difficulty) => (
+                        <SelectItem key={difficulty} value={difficulty}>
+                          {getDifficultyLabel(difficulty)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    disabled={isUpdating}
+                    onClick={() =>
+                      runAction(
+                        () =>
+                          addPlayer(gameId, "", "", {
+                            sessionToken,
+                            isComputer: true,
+                            difficulty: computerDifficulty,
+                          }),
+                        "Failed to Add Computer Player"
+                      )
+                    }
+                  >
+                    <Bot className="h-4 w-4 mr-2" /> Add Computer Player
+                  </Button>
+                </div>
+              )}
+              <Button
+                className="w-full"
+                disabled={isUpdating || notReady.length > 0}
+                onClick={() =>
+                  runAction(
+                    () => startGame(gameId, sessionToken),
+                    "Failed to Start Game"
+                  )
+                }
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {notReady.length > 0
+                  ? `Waiting for ${notReady.map((p) => p.name).join(", ")}`
+                  : "Start Game"}
+              </Button>
+            </div>
+          ) : (
+            <Button
+              className="w-full"
+              variant={me?.isReady ? "outline" : "default"}
+              disabled={isUpdating}
+              onClick={() =>
+                runAction(
+                  () => setPlayerReady(gameId, sessionToken, !me?.isReady),
+                  "Failed to Update"
+                )
+              }
+            >
+              <Check className="h-4 w-4 mr-2" />
+              {me?.isReady ? "Not Ready" : "Ready"}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            className="w-full"
+            disabled={isUpdating}
+            onClick={handleLeave}
+          >
+            <LogOut className="h-4 w-4 mr-2" /> Leave Lobby
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
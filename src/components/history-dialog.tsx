@@ -9,26 +9,64 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "./ui/button";
-import type { PlayedWord, Player } from "@/types";
+import type { PlayedWord, PlayerView } from "@/types";
 import SingleTile from "./tile";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { formatDistanceToNow } from "date-fns";
 import { PLAYER_COLORS } from "@/lib/constants";
+import { describeWordScore } from "@/lib/scoring";
 
 interface HistoryDialogProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
+  gameId: string;
   history: PlayedWord[];
-  players: Player[];
+  players: PlayerView[];
 }
 
 export function HistoryDialog({
   isOpen,
   onOpenChange,
+  gameId,
   history,
   players,
 }: HistoryDialogProps) {
   const getMoveDescription = (move: PlayedWord) => {
+    if (move.adjustment === "overtime") {
+      return (
+        <p>
+          <span className="font-bold">{move.playerName}</span> lost{" "}
+          <span className="font-bold text-primary">{-move.score}</span> points
+          for going over time.
+        </p>
+      );
+    }
+    if (move.adjustment === "rack") {
+      return move.rackLetters ? (
+        <p>
+          <span className="font-bold">{move.playerName}</span> was left with{" "}
+          <span className="font-bold text-primary">
+            {move.rackLetters.replace(/ /g, "?")}
+          </span>{" "}
+          for <span className="font-bold text-primary">{move.score}</span>{" "}
+          points.
+        </p>
+      ) : (
+        <p>
+          <span className="font-bold">{move.playerName}</span> went out and
+          gained <span className="font-bold text-primary">{move.score}</span>{" "}
+          points from the other racks.
+        </p>
+      );
+    }
+    if (move.isTimeout) {
+      return (
+        <p>
+          <span className="font-bold">{move.playerName}</span>{" "}
+          {move.isPass ? "ran out of time and passed." : "lost on time."}
+        </p>
+      );
+    }
     if (move.isPass) {
       return (
         <p>
@@ -51,6 +89,34 @@ export function HistoryDialog({
         </p>
       );
     }
+    if (move.isChallenge) {
+      return move.invalidWords?.length ? (
+        <p>
+          <span className="font-bold">{move.playerName}</span> challenged
+          successfully,{" "}
+          <span className="font-bold text-primary">
+            {move.invalidWords.join(", ")}
+          </span>{" "}
+          {move.invalidWords.length > 1 ? "are" : "is"} not valid.
+        </p>
+      ) : (
+        <p>
+          <span className="font-bold">{move.playerName}</span> challenged
+          unsuccessfully{move.score < 0 ? ` for ${move.score} points` : ""}.
+        </p>
+      );
+    }
+    if (move.isWithdrawn) {
+      return (
+        <p>
+          <span className="font-bold">{move.playerName}</span> played{" "}
+          <span className="font-bold text-primary line-through">
+            {move.word}
+          </span>
+          , which was taken back.
+        </p>
+      );
+    }
     return (
       <p>
         <span className="font-bold">{move.playerName}</span> played{" "}
@@ -111,6 +177,18 @@ export function HistoryDialog({
                             ))}
                           </div>
                         )}
+                      {move.scoreBreakdown && (
+                        <ul className="mt-2 text-xs text-muted-foreground font-mono">
+                          {move.scoreBreakdown.words.map((word) => (
+                            <li key={`${word.direction}:${word.x},${word.y}`}>
+                              {describeWordScore(word)}
+                            </li>
+                          ))}
+                          {move.scoreBreakdown.bingoBonus > 0 && (
+                            <li>Bingo: +{move.scoreBreakdown.bingoBonus}</li>
+                          )}
+                        </ul>
+                      )}
                     </div>
                   );
                 })
@@ -122,6 +200,11 @@ export function HistoryDialog({
           </div>
         </ScrollArea>
         <DialogFooter>
+          <Button variant="outline" asChild>
+            <a href={`/api/games/${gameId}/gcg`} download={`${gameId}.gcg`}>
+              Export GCG
+            </a>
+          </Button>
           <Button onClick={() => onOpenChange(false)}>Close</Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,133 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, type ReactNode } from "react";
+
+import { importGame } from "@/app/actions";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { LocalStorageKey } from "@/lib/constants";
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS } from "@/lib/languages";
+import { FileText, Globe, KeyRound } from "lucide-react";
+
+/** Creates a game from a .gcg file, to replay, analyse or play on. */
+export function ImportGameDialog({ children }: { children: ReactNode }) {
+  const [file, setFile] = useState<File | null>(null);
+  const [language, setLanguage] = useState<string>(DEFAULT_LANGUAGE);
+  const [code, setCode] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsImporting(true);
+    const formData = new FormData();
+    formData.set("gcg", await file.text());
+    formData.set("language", language);
+    formData.set("playerCode", code);
+    const result = await importGame(formData);
+    if (result.success && result.gameId) {
+      localStorage.setItem(`${LocalStorageKey.PLAYER_ID_}${result.gameId}`, result.playerId!);
+      localStorage.setItem(
+        `${LocalStorageKey.SESSION_TOKEN_}${result.gameId}`,
+        result.sessionToken!
+      );
+      router.push(`/play/${result.gameId}`);
+    } else {
+      toast({
+        title: "Import Failed",
+        description: result.error ?? "The game could not be imported.",
+        variant: "destructive",
+      });
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Import Game</DialogTitle>
+          <DialogDescription>
+            Choose a .gcg file of a finished or unfinished game. Every player in
+            it signs in with the code you choose.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="gcg-file" className="text-right">
+              <FileText className="inline-block h-5 w-5" />
+            </Label>
+            <Input
+              id="gcg-file"
+              type="file"
+              accept=".gcg,text/plain"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right">
+              <Globe className="inline-block h-5 w-5" />
+            </Label>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger className="col-span-3" aria-label="Language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LANGUAGE_OPTIONS.map(({ code, name }) => (
+                  <SelectItem key={code} value={code}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="import-code" className="text-right">
+              <KeyRound className="inline-block h-5 w-5" />
+            </Label>
+            <Input
+              id="import-code"
+              type="password"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Secret code for the players"
+              className="col-span-3"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="submit"
+            onClick={handleImport}
+            className="w-full"
+            disabled={!file || code.length === 0 || isImporting}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
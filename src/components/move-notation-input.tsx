@@ -0,0 +1,204 @@
+"use client";
+
+import type { Board, GameRules, PlacedTile, ScoreBreakdown, Tile } from "@/types";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "./ui/card";
+import { Input } from "./ui/input";
+import { Keyboard } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { verifyWordAction } from "@/app/actions";
+import { GcgError, parseTypedPlay, placeGcgPlay } from "@/lib/gcg";
+import type { MoveDirection } from "@/lib/move-generator";
+import { validatePlacement } from "@/lib/move-validator";
+import { calculateMoveScore, describeScoreBreakdown } from "@/lib/scoring";
+import { cn } from "@/lib/utils";
+
+type MovePreview =
+  | {
+      start: { x: number; y: number };
+      direction: MoveDirection;
+      tiles: PlacedTile[];
+      scoreBreakdown: ScoreBreakdown;
+    }
+  | { error: string };
+
+/** Places a move typed as "H8 QUIZ" with the rack's tiles and scores it. */
+function previewMove(
+  text: string,
+  board: Board,
+  rack: Tile[],
+  rules: GameRules
+): MovePreview | null {
+  if (!text.trim()) return null;
+  try {
+    const play = parseTypedPlay(text);
+    const tiles = placeGcgPlay(play, board, rack);
+    const [reason] = validatePlacement(board, tiles);
+    if (reason) return { error: reason.message };
+    const scoreBreakdown = calculateMoveScore(tiles, board, rules);
+    if (scoreBreakdown.words.length === 0) return { error: "No words were formed." };
+    return {
+      start: { x: play.x, y: play.y },
+      direction: play.direction,
+      tiles,
+      scoreBreakdown,
+    };
+  } catch (error) {
+    if (error instanceof GcgError) return { error: error.message };
+    throw error;
+  }
+}
+
+interface MoveNotationInputProps {
+  board: Board;
+  /** The whole rack, including tiles already staged. */
+  rack: Tile[];
+  rules: GameRules;
+  canSubmit: boolean;
+  /** Stages the new tiles in order from where the word starts. */
+  onStage: (start: { x: number; y: number }, direction: MoveDirection, tiles: Tile[]) => void;
+  onClear: () => void;
+  onSubmit: () => void;
+}
+
+/**
+ * Lets a player type a move, such as "H8 QUIZ" across or "8H QUIZ" down, as a
+ * quicker alternative to placing tiles one by one. The move is staged as it
+ * is typed, so the board and word planner show it too.
+ */
+export default function MoveNotationInput({
+  board,
+  rack,
+  rules,
+  canSubmit,
+  onStage,
+  onClear,
+  onSubmit,
+}: MoveNotationInputProps) {
+  const [text, setText] = useState("");
+  const [invalidWords, setInvalidWords] = useState<string[] | null>(null);
+  // Only tiles staged from here are cleared when the move stops making sense.
+  const hasStaged = useRef(false);
+
+  const preview = useMemo(
+    () => previewMove(text, board, rack, rules),
+    [text, board, rack, rules]
+  );
+  const words = preview && "tiles" in preview
+    ? preview.scoreBreakdown.words.map((w) => w.word)
+    : [];
+  const wordsKey = words.join(",");
+
+  // A new rack means the move was played, or the turn moved on.
+  const rackKey = rack.map((t) => t.id).join(",");
+  useEffect(() => {
+    setText("");
+    hasStaged.current = false;
+  }, [rackKey]);
+
+  // With challenges, phony words are left for the opponents to catch.
+  useEffect(() => {
+    setInvalidWords(null);
+    if (!wordsKey || rules.challengeMode !== "void") return;
+    let isCurrent = true;
+    const timer = setTimeout(() => {
+      const checkWords = wordsKey.split(",");
+      Promise.all(
+        checkWords.map((word) => verifyWordAction(word, rules.language))
+      ).then((results) => {
+        if (isCurrent) {
+          setInvalidWords(checkWords.filter((_, i) => !results[i].isValid));
+        }
+      });
+    }, 300);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [wordsKey, rules.challengeMode, rules.language]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const next = previewMove(value, board, rack, rules);
+    if (next && "tiles" in next) {
+      onStage(
+        next.start,
+        next.direction,
+        next.tiles.map(({ x: _x, y: _y, ...tile }) => tile)
+      );
+      hasStaged.current = true;
+    } else if (hasStaged.current) {
+      onClear();
+      hasStaged.current = false;
+    }
+  };
+
+  const renderPreview = () => {
+    if (!preview) {
+      return "Lower case letters are blanks, and \".\" a tile already on the board.";
+    }
+    if ("error" in preview) return preview.error;
+    const { score } = preview.scoreBreakdown;
+    const description = `${words.join(", ")} for ${score} points (${describeScoreBreakdown(
+      preview.scoreBreakdown
+    )}).`;
+    if (rules.challengeMode !== "void") {
+      return `${description} Words can be challenged.`;
+    }
+    if (invalidWords === null) return `${description} Checking words...`;
+    if (invalidWords.length > 0) {
+      return `${description} Not valid: ${invalidWords.join(", ")}.`;
+    }
+    return `${description} All words are valid.`;
+  };
+
+  const isInvalid =
+    !!preview && ("error" in preview || (invalidWords?.length ?? 0) > 0);
+
+  return (
+    <Card className="shadow-lg animate-in fade-in-50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Keyboard className="h-5 w-5" />
+          Type a Move
+        </CardTitle>
+        <CardDescription>
+          A letter first plays across, a number first plays down.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Input
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && canSubmit && preview && "tiles" in preview) {
+              e.preventDefault();
+              onSubmit();
+            }
+          }}
+          placeholder="H8 QUIZ"
+          aria-label="Move, such as H8 QUIZ"
+          aria-describedby="move-notation-preview"
+          aria-invalid={isInvalid}
+          autoComplete="off"
+          spellCheck={false}
+        />
+        <p
+          id="move-notation-preview"
+          aria-live="polite"
+          className={cn(
+            "text-sm",
+            isInvalid ? "text-destructive" : "text-muted-foreground"
+          )}
+        >
+          {renderPreview()}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
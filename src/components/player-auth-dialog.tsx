@@ -1,7 +1,8 @@
 "use client";
 
 import { useState } from "react";
-import type { Player } from "@/types";
+import type { PlayerView } from "@/types";
+import { authenticatePlayer } from "@/app/actions";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -25,20 +26,27 @@ import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "./ui/card";
 
 interface PlayerAuthDialogProps {
-  players: Player[];
-  onAuth: (playerId: string) => void;
+  gameId: string;
+  players: PlayerView[];
+  onAuth: (playerId: string, sessionToken: string) => Promise<void>;
 }
 
-export function PlayerAuthDialog({ players, onAuth }: PlayerAuthDialogProps) {
+export function PlayerAuthDialog({
+  gameId,
+  players,
+  onAuth,
+}: PlayerAuthDialogProps) {
   const [selectedPlayerId, setSelectedPlayerId] = useState<string>("");
   const [code, setCode] = useState("");
   const [showCode, setShowCode] = useState(false);
+  const [isAuthenticating, setIsAuthenticating] = useState(false);
   const { toast } = useToast();
 
-  const handleAuthenticate = () => {
-    const player = players.find((p) => p.id === selectedPlayerId);
-    if (player && player.code === code) {
-      onAuth(player.id);
+  const handleAuthenticate = async () => {
+    setIsAuthenticating(true);
+    const result = await authenticatePlayer(gameId, selectedPlayerId, code);
+    if (result.success && result.sessionToken) {
+      await onAuth(selectedPlayerId, result.sessionToken);
     } else {
       toast({
         title: "Authentication Failed",
@@ -46,6 +54,7 @@ export function PlayerAuthDialog({ players, onAuth }: PlayerAuthDialogProps) {
         variant: "destructive",
       });
     }
+    setIsAuthenticating(false);
   };
 
   return (
@@ -118,7 +127,7 @@ export function PlayerAuthDialog({ players, onAuth }: PlayerAuthDialogProps) {
                 type="submit"
                 onClick={handleAuthenticate}
                 className="w-full"
-                disabled={!selectedPlayerId || code.length === 0}
+                disabled={!selectedPlayerId || code.length === 0 || isAuthenticating}
               >
                 Authenticate
               </Button>
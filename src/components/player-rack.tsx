@@ -9,6 +9,7 @@ import {
 } from "./ui/card";
 import SingleTile from "./tile";
 import { Hand } from "lucide-react";
+import { DEFAULT_GAME_RULES } from "@/lib/game-rules";
 
 interface PlayerRackProps {
   rack: Tile[]; // This should be the filtered list of available (un-staged) tiles
@@ -17,6 +18,7 @@ interface PlayerRackProps {
   isMyTurn: boolean;
   selectedRackTileId: string | null;
   playerColor?: string;
+  rackSize?: number;
 }
 
 export default function PlayerRack({
@@ -26,6 +28,7 @@ export default function PlayerRack({
   isMyTurn,
   selectedRackTileId,
   playerColor,
+  rackSize = DEFAULT_GAME_RULES.rackSize,
 }: PlayerRackProps) {
 
   return (
@@ -45,7 +48,10 @@ export default function PlayerRack({
         )}
       </CardHeader>
       <CardContent>
-        <div className="grid grid-cols-7 gap-1 md:gap-2">
+        <div
+          className="grid gap-1 md:gap-2"
+          style={{ gridTemplateColumns: `repeat(${rackSize}, minmax(0, 1fr))` }}
+        >
           {rack.map((tile) => {
             return (
               <SingleTile
@@ -61,7 +67,7 @@ export default function PlayerRack({
               />
             );
           })}
-          {Array.from({ length: 7 - rack.length }).map((_, index) => (
+          {Array.from({ length: Math.max(0, rackSize - rack.length) }).map((_, index) => (
             <div
               key={`empty-${index}`}
               className="aspect-square bg-muted/50 rounded-md"
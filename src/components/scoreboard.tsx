@@ -1,20 +1,42 @@
-import type { Player } from "@/types";
+import type { ComputerDifficulty, GameResult, PlayerView } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { cn } from "@/lib/utils";
 import { Award, Bot, History, User } from "lucide-react";
 import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import {
+  COMPUTER_DIFFICULTIES,
+  getDifficultyLabel,
+} from "@/lib/computer-player";
+import { formatClockTime, PlayerClock } from "@/lib/game-clock";
+import { formatDistanceToNow } from "date-fns";
 
 interface ScoreboardProps {
-  players: Player[];
+  players: PlayerView[];
   currentPlayerId: string;
   authenticatedPlayerId: string | null;
   isGameOver?: boolean;
-  onReplacePlayer: (playerId: string) => void;
-  lastMoveTimestamp?: string;
+  onReplacePlayer: (playerId: string, difficulty: ComputerDifficulty) => void;
+  /**
+   * When the current player's turn deadline passes, after which they can be
+   * replaced with a computer player. Null while they are on vacation.
+   */
+  turnDeadline?: number | null;
+  /** Whether the game has turn deadlines, which are then shown. */
+  hasTurnDeadlines?: boolean;
   onShowHistory: () => void;
   gameHistoryLength: number;
-  gameCreatedAt?: string;
   tileBagCount: number;
+  /** Each player's clock, in timed games. */
+  clocks?: Record<string, PlayerClock | null>;
+  /** The final standings, which order the players once the game is over. */
+  result?: GameResult;
 }
 
 export default function Scoreboard({
@@ -23,16 +45,25 @@ export default function Scoreboard({
   authenticatedPlayerId,
   isGameOver,
   onReplacePlayer,
-  lastMoveTimestamp,
+  turnDeadline,
+  hasTurnDeadlines,
   onShowHistory,
   gameHistoryLength,
-  gameCreatedAt,
   tileBagCount,
+  clocks,
+  result,
 }: ScoreboardProps) {
   const winningScore = Math.max(...players.map((player) => player.score));
 
   if (!players?.length) return null;
 
+  const standings = result?.standings.filter((s) =>
+    players.some((p) => p.id === s.playerId)
+  );
+  const orderedPlayers = standings
+    ? standings.map((s) => players.find((p) => p.id === s.playerId)!)
+    : players;
+
   return (
     <Card className="w-full">
       <CardHeader className="flex flex-row items-center justify-between">
@@ -47,16 +78,21 @@ export default function Scoreboard({
       </CardHeader>
       <CardContent>
         <ul className="space-y-2">
-          {players.map((player, index) => {
+          {orderedPlayers.map((player, index) => {
             const isCurrentTurn = player.id === currentPlayerId;
             const isYou = player.id === authenticatedPlayerId;
-            const isWinner = player.score === winningScore;
+            const isWinner = result
+              ? result.winnerIds.includes(player.id)
+              : player.score === winningScore;
+            const standing = standings?.[index];
 
-            const referenceTimestamp = lastMoveTimestamp || gameCreatedAt;
-            
-            const isInactive = (!!referenceTimestamp &&
-              new Date(referenceTimestamp) <
-                new Date(Date.now() - 30 * 60 * 1000));
+            const isInactive =
+              turnDeadline !== undefined &&
+              turnDeadline !== null &&
+              turnDeadline <= Date.now();
+
+            const clock = clocks?.[player.id];
+            const isOvertime = !!clock?.remainingMs && clock.remainingMs < 0;
 
             return (
               <li
@@ -70,7 +106,13 @@ export default function Scoreboard({
                 )}
               >
                 <div className="flex items-center gap-2">
-                  <User className="h-4 w-4" />
+                  {standing ? (
+                    <span className="w-4 text-sm font-bold text-primary">
+                      {standing.place}.
+                    </span>
+                  ) : (
+                    <User className="h-4 w-4" />
+                  )}
                   <span className="font-medium">
                     {player.name.toUpperCase()}
                     {isYou && (
@@ -80,30 +122,83 @@ export default function Scoreboard({
                     )}
                     {player?.isComputer && (
                       <span className="text-xs text-muted-foreground ml-1">
-                        (AI)
+                        (AI · {getDifficultyLabel(player.difficulty)})
+                      </span>
+                    )}
+                    {standing?.hasForfeited && (
+                      <span className="text-xs text-muted-foreground ml-1">
+                        (Forfeited)
                       </span>
                     )}
+                    {player.vacationStartedAt && (
+                      <span className="text-xs text-muted-foreground ml-1">
+                        (On vacation)
+                      </span>
+                    )}
+                    {hasTurnDeadlines &&
+                      isCurrentTurn &&
+                      !isGameOver &&
+                      !!turnDeadline && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          {isInactive
+                            ? "(Deadline passed)"
+                            : `(${formatDistanceToNow(turnDeadline)} left)`}
+                        </span>
+                      )}
                     {tileBagCount === 0 && !isYou && (
                        <span className="text-xs text-muted-foreground ml-1">
-                         ({player.rack.length} tiles)
+                         ({player.rackSize} tiles)
                        </span>
                     )}
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
                   {isInactive && isCurrentTurn && !player.isComputer && !isYou && (
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => onReplacePlayer(player.id)}
-                      title={`Replace ${player.name} with AI`}
-                    >
-                      <Bot className="h-4 w-4" />
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title={`Replace ${player.name} with AI`}
+                        >
+                          <Bot className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>AI Difficulty</DropdownMenuLabel>
+                        {COMPUTER_DIFFICULTIES.map((difficulty) => (
+                          <DropdownMenuItem
+                            key={difficulty}
+                            onClick={() =>
+                              onReplacePlayer(player.id, difficulty)
+                            }
+                          >
+                            {getDifficultyLabel(difficulty)}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   )}
                   {player.isComputer && (
                     <Bot className="h-5 w-5 text-muted-foreground" />
                   )}
+                  {clock && !isGameOver && (
+                    <span
+                      className={cn(
+                        "font-mono text-sm tabular-nums",
+                        clock.isRunning ? "font-bold" : "text-muted-foreground",
+                        isOvertime && "text-destructive"
+                      )}
+                      title={isOvertime ? "Overtime" : "Time left"}
+                    >
+                      {clock.moveRemainingMs !== null &&
+                        `${formatClockTime(clock.moveRemainingMs)} `}
+                      {clock.remainingMs !== null &&
+                        (clock.moveRemainingMs !== null
+                          ? `(${formatClockTime(clock.remainingMs)})`
+                          : formatClockTime(clock.remainingMs))}
+                    </span>
+                  )}
                   <span className="font-bold text-lg text-primary">
                     {player.score}
                   </span>
@@ -41,7 +41,8 @@ export default function SingleTile({
     >
       <span
         className={cn("font-bold font-headline mr-1 mb-1")}
-        style={{ fontSize: "50cqw" }}
+        // Tiles like the Spanish "CH" need a smaller font to fit.
+        style={{ fontSize: tile.letter.length > 1 ? "32cqw" : "50cqw" }}
       >
         {isBlank ? "?" : tile.letter}
       </span>
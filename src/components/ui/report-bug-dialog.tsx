@@ -12,7 +12,7 @@ import { Button } from "./button";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { reportBugAction } from "@/app/actions";
-import { Player } from "@/types";
+import { PlayerView } from "@/types";
 import { RefreshCw } from "lucide-react";
 
 export function ReportBugDialog({
@@ -24,7 +24,7 @@ export function ReportBugDialog({
 }: {
   isReportBugOpen: boolean;
   setIsReportBugOpen: (isOpen: boolean) => void;
-  authenticatedPlayer?: Player;
+  authenticatedPlayer?: PlayerView;
   gameId: string;
   sha: string | null;
 }) {
@@ -1,7 +1,7 @@
 
 "use client";
 
-import type { PlacedTile, Board, BoardSquare, Tile } from "@/types";
+import type { PlacedTile, Board, BoardSquare, GameRules, Tile } from "@/types";
 import {
   Card,
   CardContent,
@@ -13,6 +13,7 @@ import SingleTile from "./tile";
 import { WholeWord } from "lucide-react";
 import { useMemo, useState, useEffect } from "react";
 import { calculateMoveScore } from "@/lib/scoring";
+import { DEFAULT_GAME_RULES } from "@/lib/game-rules";
 import { getWordDefinition } from "@/app/actions";
 import { cn } from "@/lib/utils";
 import { INVALID_WORD_ERROR, NO_API_KEY_ERROR, UNDEFINED_WORD_VALID } from "@/lib/constants";
@@ -28,6 +29,7 @@ interface WordBuilderProps {
   playDirection: "horizontal" | "vertical" | null;
   playerColor?: string;
   onBlankTileReassign: (index: number) => void;
+  rules?: GameRules;
 }
 
 export default function WordBuilder({
@@ -41,6 +43,7 @@ export default function WordBuilder({
   playDirection,
   playerColor,
   onBlankTileReassign,
+  rules = DEFAULT_GAME_RULES,
 }: WordBuilderProps) {
   const [definition, setDefinition] = useState<string | null>(null);
   const [isFetchingDefinition, setIsFetchingDefinition] = useState(false);
@@ -74,7 +77,8 @@ export default function WordBuilder({
     if (tempPlacedTiles.length > 0) {
       const { score: calculatedScore, words } = calculateMoveScore(
         tempPlacedTiles,
-        board
+        board,
+        rules
       );
 
       if (words.length > 0) {
@@ -91,7 +95,7 @@ export default function WordBuilder({
     // Fallback to a simple concatenation if no valid placement yet.
     // This allows definition lookup while planning.
     return { word: currentWord, score: 0 };
-  }, [stagedTiles, slots, tempPlacedTiles, board, playDirection]);
+  }, [stagedTiles, slots, tempPlacedTiles, board, playDirection, rules]);
 
 
   useEffect(() => {
@@ -209,7 +213,14 @@ export default function WordBuilder({
         <CardDescription>{renderDescription()}</CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="grid grid-cols-7 gap-1 md:gap-2">{renderSlots()}</div>
+        <div
+          className="grid gap-1 md:gap-2"
+          style={{
+            gridTemplateColumns: `repeat(${rules.rackSize}, minmax(0, 1fr))`,
+          }}
+        >
+          {renderSlots()}
+        </div>
         {Object.keys(stagedTiles).length > 0 && word.length > 0 && (
           <div className="text-center mt-4 p-2 bg-muted rounded-lg">
             <p className="font-bold text-lg tracking-widest">
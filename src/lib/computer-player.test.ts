@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { GameState, Tile } from "@/types";
+import { chooseComputerMove } from "./computer-player";
+import { replayGameEvents } from "./game-events";
+import { MIN_BAG_SIZE_TO_SWAP } from "./game-rules";
+
+const timestamp = "2025-01-01T00:00:00.000Z";
+
+/** A game between an easy BOT, to move, holding the given letters, and ANN. */
+const createGame = (letters: string): GameState => {
+  const gameState = replayGameEvents([
+    { type: "gameCreated", timestamp, gameId: "TEST", seed: 1 },
+    {
+      type: "playerJoined",
+      timestamp,
+      player: { id: "bot", name: "EASY BOT", code: "", isComputer: true, difficulty: "easy" },
+    },
+    { type: "playerJoined", timestamp, player: { id: "ann", name: "ANN", code: "" } },
+    { type: "gameStarted", timestamp, turnOrder: ["bot", "ann"], turnOrderDraws: {} },
+  ]);
+  const rack: Tile[] = [];
+  Array.from(letters).forEach((letter) => {
+    rack.push(gameState.tileBag.find((t) => t.letter === letter && !rack.includes(t))!);
+  });
+  gameState.players[0].rack = rack;
+  gameState.tileBag = gameState.tileBag.filter((t) => !rack.includes(t));
+  return gameState;
+};
+
+describe("chooseComputerMove", () => {
+  it("swaps the tiles it least wants to keep when it has no play", () => {
+    const gameState = createGame("QVVWWXE");
+    const move = chooseComputerMove(gameState, gameState.players[0], []);
+    assert.equal(move.type, "swap");
+    const swapped = move.type === "swap" ? move.tiles.map((t) => t.letter) : [];
+    assert.ok(swapped.includes("Q"));
+    assert.ok(!swapped.includes("E"));
+  });
+
+  it("passes when too few tiles are left in the bag to swap", () => {
+    const gameState = createGame("QVVWWXE");
+    gameState.tileBag = gameState.tileBag.slice(0, MIN_BAG_SIZE_TO_SWAP - 1);
+    const move = chooseComputerMove(gameState, gameState.players[0], []);
+    assert.deepEqual(move, { type: "pass" });
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * @fileoverview Move choice for computer players at each difficulty level.
+ *
+ * Easier players know fewer words and pick weaker moves at random, while
+ * harder players rate moves by their score plus the value of the tiles they
+ * keep (the leave), and swap when their rack is worth more than any play.
+ * They then play the best few moves out in simulations, and make the one
+ * most likely to win. Once the bag is empty in a two-player game, expert
+ * players search the rest of the game for the best line instead.
+ */
+import type {
+  ComputerDifficulty,
+  GameState,
+  LanguageCode,
+  Move,
+  Player,
+  Tile,
+} from "@/types";
+import type { GeneratedMove } from "./move-generator";
+import type { MoveSimulation } from "./move-simulation";
+import type { EndgameSolution } from "./endgame-solver";
+import { getGameRules, MIN_BAG_SIZE_TO_SWAP } from "./game-rules";
+import { DEFAULT_LANGUAGE } from "./languages";
+import { createRandom } from "./random";
+
+export const COMPUTER_DIFFICULTIES: ComputerDifficulty[] = [
+  "easy",
+  "medium",
+  "hard",
+  "expert",
+];
+
+export const DEFAULT_COMPUTER_DIFFICULTY: ComputerDifficulty = "hard";
+
+interface DifficultyProfile {
+  /** Longest word the player plays, limiting its vocabulary. */
+  maxWordLength: number;
+  /** Moves are picked at random from this fraction of the best moves. */
+  choiceFraction: number;
+  /** Rate moves by the tiles they keep as well as their score. */
+  evaluatesLeave: boolean;
+  /** Play for the end of the game once the bag runs low. */
+  plansEndgame: boolean;
+  /** Choose between the best rated moves by simulating them. */
+  simulates: boolean;
+}
+
+const DIFFICULTY_PROFILES: Record<ComputerDifficulty, DifficultyProfile> = {
+  easy: {
+    maxWordLength: 5,
+    choiceFraction: 1,
+    evaluatesLeave: false,
+    plansEndgame: false,
+    simulates: false,
+  },
+  medium: {
+    maxWordLength: 7,
+    choiceFraction: 0.25,
+    evaluatesLeave: false,
+    plansEndgame: false,
+    simulates: false,
+  },
+  hard: {
+    maxWordLength: Infinity,
+    choiceFraction: 0,
+    evaluatesLeave: true,
+    plansEndgame: false,
+    simulates: true,
+  },
+  expert: {
+    maxWordLength: Infinity,
+    choiceFraction: 0,
+    evaluatesLeave: true,
+    plansEndgame: true,
+    simulates: true,
+  },
+};
+
+// Rough worth in points of keeping each English tile for later turns.
+const ENGLISH_LEAVE_VALUES: Record<string, number> = {
+  " ": 25,
+  S: 8,
+  Z: 5,
+  X: 3.5,
+  R: 1.5,
+  E: 1,
+  H: 1,
+  A: 0.5,
+  C: 0.5,
+  D: 0.5,
+  M: 0.5,
+  N: 0.5,
+  T: 0.5,
+  L: 0,
+  I: -0.5,
+  K: -0.5,
+  P: -0.5,
+  Y: -0.5,
+  O: -1,
+  J: -1.5,
+  B: -2,
+  F: -2,
+  G: -2,
+  U: -3,
+  W: -3,
+  V: -5.5,
+  Q: -7,
+};
+const TILE_LEAVE_VALUES: Partial<Record<LanguageCode, Record<string, number>>> = {
+  en: ENGLISH_LEAVE_VALUES,
+};
+const BLANK_LEAVE_VALUE = ENGLISH_LEAVE_VALUES[" "];
+const DUPLICATE_TILE_PENALTY = 3;
+const VOWEL_BALANCE_PENALTY = 2;
+const Q_WITHOUT_U_PENALTY = 5;
+const VOWELS = new Set(["A", "E", "I", "O", "U", "Ä", "Ö", "Ü"]);
+/** Number of the best rated moves a computer player simulates. */
+const SIMULATION_CANDIDATES = 8;
+
+export const getDifficultyLabel = (difficulty?: ComputerDifficulty) => {
+  const level = difficulty ?? DEFAULT_COMPUTER_DIFFICULTY;
+  return level.charAt(0).toUpperCase() + level.slice(1);
+};
+
+/** Names a new computer player after its difficulty, e.g. "HARD BOT 2". */
+export function getComputerPlayerName(
+  players: Player[],
+  difficulty?: ComputerDifficulty
+): string {
+  const baseName = `${getDifficultyLabel(difficulty).toUpperCase()} BOT`;
+  const names = new Set(players.map((p) => p.name.toUpperCase()));
+  let name = baseName;
+  for (let i = 2; names.has(name); i++) name = `${baseName} ${i}`;
+  return name;
+}
+
+/**
+ * Without a table for the language, tiles worth few points are taken to be
+ * the easiest to play again, and those worth many the hardest.
+ */
+const estimateTileLeaveValue = (tile: Tile) =>
+  tile.letter === " " ? BLANK_LEAVE_VALUE : 1.5 - 0.75 * tile.points;
+
+/** Estimates how many points the tiles kept on a rack are worth. */
+export function evaluateLeave(
+  leave: Tile[],
+  language: LanguageCode = DEFAULT_LANGUAGE
+): number {
+  const values = TILE_LEAVE_VALUES[language];
+  const getTileValue = values
+    ? (tile: Tile) => values[tile.letter] ?? 0
+    : estimateTileLeaveValue;
+  const letters = leave.map((t) => t.letter);
+  let value = 0;
+  const seen = new Set<string>();
+  leave.forEach((tile) => {
+    value += seen.has(tile.letter) ? -DUPLICATE_TILE_PENALTY : getTileValue(tile);
+    seen.add(tile.letter);
+  });
+
+  const vowels = letters.filter((l) => VOWELS.has(l)).length;
+  const consonants = letters.filter((l) => l !== " " && !VOWELS.has(l)).length;
+  value -= VOWEL_BALANCE_PENALTY * Math.max(0, Math.abs(vowels - consonants) - 1);
+  if (seen.has("Q") && !seen.has("U") && !seen.has(" ")) {
+    value -= Q_WITHOUT_U_PENALTY;
+  }
+  return value;
+}
+
+const getLeave = (rack: Tile[], usedTiles: Tile[]) => {
+  const usedIds = new Set(usedTiles.map((t) => t.id));
+  return rack.filter((t) => !usedIds.has(t.id));
+};
+
+/** Finds the tiles worth keeping most, trying every subset of the rack. */
+export const findBestSwap = (
+  rack: Tile[],
+  maxSwapped: number,
+  language?: LanguageCode
+) => {
+  let best: { keep: Tile[]; value: number } | null = null;
+  for (let mask = 0; mask < 1 << rack.length; mask++) {
+    const keep = rack.filter((_, i) => mask & (1 << i));
+    if (keep.length === rack.length) continue;
+    if (rack.length - keep.length > maxSwapped) continue;
+    const value = evaluateLeave(keep, language);
+    if (!best || value > best.value) best = { keep, value };
+  }
+  return best && { tiles: getLeave(rack, best.keep), value: best.value };
+};
+
+const getProfile = (player: Player) =>
+  DIFFICULTY_PROFILES[player.difficulty ?? DEFAULT_COMPUTER_DIFFICULTY];
+
+/**
+ * Rates the moves a computer player knows, best first, and finds the swap it
+ * would rather make, if any.
+ */
+function rateMoves(gameState: GameState, player: Player, moves: GeneratedMove[]) {
+  const profile = getProfile(player);
+  const bagSize = gameState.tileBag.length;
+  const { language } = getGameRules(gameState);
+  const opponentRackPoints = gameState.players
+    .filter((p) => p.id !== player.id)
+    .reduce(
+      (sum, p) => sum + p.rack.reduce((total, t) => total + t.points, 0),
+      0
+    );
+
+  const rateMove = (move: GeneratedMove) => {
+    if (!profile.evaluatesLeave) return move.score;
+    const leave = getLeave(player.rack, move.tiles);
+    if (profile.plansEndgame && bagSize === 0) {
+      // Going out ends the game and scores the tiles left on other racks.
+      return leave.length === 0 ? move.score + 2 * opponentRackPoints : move.score;
+    }
+    // Tiles kept matter less as the bag runs out of turns to use them.
+    const leaveWeight =
+      profile.plansEndgame && bagSize < MIN_BAG_SIZE_TO_SWAP ? 0.5 : 1;
+    return move.score + leaveWeight * evaluateLeave(leave, language);
+  };
+
+  const candidates = moves
+    .filter((m) => m.word.length <= profile.maxWordLength)
+    .map((move) => ({ move, rating: rateMove(move) }))
+    .sort((a, b) => b.rating - a.rating);
+
+  const canSwap = bagSize >= MIN_BAG_SIZE_TO_SWAP;
+  if (profile.evaluatesLeave && canSwap) {
+    const swap = findBestSwap(player.rack, bagSize, language);
+    if (swap && (!candidates.length || swap.value > candidates[0].rating)) {
+      return { candidates, swap };
+    }
+  }
+  return { candidates, swap: null };
+}
+
+/**
+ * Whether a computer player would search the endgame before it moves, as an
+ * expert player knows every rack once the bag is empty in a two-player game.
+ */
+export const solvesEndgame = (gameState: GameState, player: Player) =>
+  getProfile(player).plansEndgame &&
+  gameState.tileBag.length === 0 &&
+  gameState.players.length === 2;
+
+/**
+ * Returns the moves a computer player would like simulated before it chooses
+ * between them, or none if it doesn't simulate or has already decided.
+ */
+export function getSimulationCandidates(
+  gameState: GameState,
+  player: Player,
+  moves: GeneratedMove[]
+): GeneratedMove[] {
+  const profile = getProfile(player);
+  if (!profile.simulates) return [];
+  if (solvesEndgame(gameState, player)) return [];
+  const { candidates, swap } = rateMoves(gameState, player, moves);
+  if (swap) return [];
+  return candidates.slice(0, SIMULATION_CANDIDATES).map((c) => c.move);
+}
+
+/**
+ * Chooses the move a computer player makes from every legal move, sorted by
+ * score as returned by the move generator. A solved endgame's best line is
+ * followed, and moves that have been simulated are chosen between by their
+ * chance of winning, then their expected spread.
+ */
+export function chooseComputerMove(
+  gameState: GameState,
+  player: Player,
+  moves: GeneratedMove[],
+  {
+    simulatedMoves = [],
+    endgame,
+  }: {
+    simulatedMoves?: { move: GeneratedMove; simulation: MoveSimulation }[];
+    endgame?: EndgameSolution | null;
+  } = {}
+): Move {
+  const profile = getProfile(player);
+  const bagSize = gameState.tileBag.length;
+  if (endgame?.line.length) {
+    const [move] = endgame.line;
+    return move ? { type: "play", tiles: move.tiles } : { type: "pass" };
+  }
+
+  const { candidates, swap } = rateMoves(gameState, player, moves);
+  if (swap) return { type: "swap", tiles: swap.tiles };
+
+  if (simulatedMoves.length > 0) {
+    const [best] = [...simulatedMoves].sort(
+      (a, b) =>
+        b.simulation.winProbability - a.simulation.winProbability ||
+        b.simulation.expectedSpread - a.simulation.expectedSpread
+    );
+    return { type: "play", tiles: best.move.tiles };
+  }
+
+  if (candidates.length > 0) {
+    // Derived from the game state so the same position gets the same move.
+    const random = createRandom(
+      (gameState.rngState ?? gameState.seed ?? 0) + gameState.history.length
+    );
+    const choices = Math.max(
+      1,
+      Math.ceil(candidates.length * profile.choiceFraction)
+    );
+    return {
+      type: "play",
+      tiles: candidates[Math.floor(random.next() * choices)].move.tiles,
+    };
+  }
+
+  if (bagSize >= MIN_BAG_SIZE_TO_SWAP) {
+    const swap = findBestSwap(player.rack, bagSize, getGameRules(gameState).language);
+    if (swap) return { type: "swap", tiles: swap.tiles };
+  }
+  return { type: "pass" };
+}
@@ -12,9 +12,18 @@ export const PLAYER_COLORS = [
 export const LocalStorageKey = {
   GAMES: "scrabblex_game_history",
   PLAYER_ID_: "scrabblex_player_id_",
+  SESSION_TOKEN_: "scrabblex_session_token_",
 };
 
 export const UNDEFINED_WORD_VALID = "Unable to define this valid word.";
 export const UNDEFINED_WORD_ERROR = "Unable to define this word.";
 export const INVALID_WORD_ERROR = "Not a valid word.";
 export const NO_API_KEY_ERROR = "GEMINI_API_KEY not set.";
+export const GAME_STATE_CHANGED_ERROR =
+  "The game state changed before your action was saved.";
+export const INVALID_SESSION_ERROR =
+  "Your session has expired. Please enter your code again.";
+
+export const GITHUB_USER_REPO = "iamogbz/scrabblex";
+export const GITHUB_BRANCH_BASE = "main";
+export const GITHUB_BRANCH_GAMES = "games";
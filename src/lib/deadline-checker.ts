@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Applies missed deadlines and clock timeouts on an interval,
+ * so slow games move on when none of the players have them open.
+ *
+ * Games apply their own timeouts whenever they are loaded or played too. The
+ * checker runs every minute unless `DEADLINE_CHECK_INTERVAL_SECONDS` says
+ * otherwise, or is 0 to switch it off. When it starts it reads the games being
+ * played from the store, and from then on tracks the games this server saves.
+ */
+import { getDueGameIds, trackGameDeadline } from "./game-deadlines";
+import { applyDueTimeouts } from "./game-play";
+import { getGame, listGameIds } from "./game-service";
+
+const DEFAULT_CHECK_INTERVAL_SECONDS = 60;
+
+// Kept on globalThis so module reloads in development don't start another.
+const globalForDeadlines = globalThis as typeof globalThis & {
+  scrabblexDeadlineChecker?: ReturnType<typeof setInterval>;
+};
+
+let isChecking = false;
+
+/** Returns how often to check, or null if the checker is switched off. */
+export function getDeadlineCheckInterval(): number | null {
+  const setting = process.env.DEADLINE_CHECK_INTERVAL_SECONDS;
+  const seconds = setting ? Number(setting) : DEFAULT_CHECK_INTERVAL_SECONDS;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+}
+
+/** Tracks the deadlines of every game in the store that is being played. */
+export async function trackStoredGames(): Promise<void> {
+  for (const gameId of await listGameIds()) {
+    const game = await getGame(gameId);
+    if (game?.gameState.gamePhase === "playing") {
+      trackGameDeadline(gameId, game.gameState);
+    }
+  }
+}
+
+/** Applies the timeouts of every tracked game that has one due. */
+export async function checkDeadlines(now = Date.now()): Promise<void> {
+  if (isChecking) return;
+  isChecking = true;
+  try {
+    for (const gameId of getDueGameIds(now)) {
+      const result = await applyDueTimeouts(gameId);
+      if ("error" in result) {
+        // Someone else moved the game on, so its deadline is out of date.
+        const game = await getGame(gameId);
+        trackGameDeadline(gameId, game?.gameState ?? null);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to check deadlines:", error);
+  } finally {
+    isChecking = false;
+  }
+}
+
+export function startDeadlineChecker() {
+  const interval = getDeadlineCheckInterval();
+  if (!interval || globalForDeadlines.scrabblexDeadlineChecker) return;
+  globalForDeadlines.scrabblexDeadlineChecker = setInterval(checkDeadlines, interval);
+  trackStoredGames()
+    .then(() => checkDeadlines())
+    .catch((error) => console.error("Failed to read the games being played:", error));
+}
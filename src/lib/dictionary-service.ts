@@ -1,62 +1,78 @@
 /**
- * @fileoverview Service for interacting with GitHub to store and retrieve word definitions.
+ * @fileoverview Service for loading the word lists and caching word definitions.
  */
+import type { LanguageCode } from "@/types";
+import { getGameStore } from "./game-store";
 import {
-  GITHUB_TOKEN,
-  GITHUB_USER_REPO,
-  GITHUB_BRANCH_GAMES,
-} from "./game-service";
-
-const GITHUB_API_BASE_URL = `https://api.github.com/repos/${GITHUB_USER_REPO}/contents`;
+  getLanguage,
+  hasMultiLetterTiles,
+  normalizeWord,
+  splitIntoTiles,
+} from "./languages";
+import { Dawg } from "./move-generator";
+
+const getDefinitionPath = (word: string) => `dictionary/${word}.txt`;
+
+const wordSets = new Map<LanguageCode, Set<string>>();
+const dawgs = new Map<LanguageCode, Dawg>();
+
+/** Returns the word list of a language, fetched only once. */
+export async function getWordSet(languageCode?: LanguageCode) {
+  const language = getLanguage(languageCode);
+  const cachedWordSet = wordSets.get(language.code);
+  if (cachedWordSet) {
+    return cachedWordSet;
+  }
 
-if (!GITHUB_TOKEN) {
-  console.warn(
-    "GITHUB_TOKEN environment variable is not set. Word definitions will not be cached."
-  );
-}
+  const baseUrl = process.env.VERCEL_URL
+    ? `https://${process.env.VERCEL_URL}`
+    : `http://localhost:${process.env.PORT || 9002}`;
 
-const githubHeaders = {
-  Authorization: `token ${GITHUB_TOKEN}`,
-  Accept: "application/vnd.github.v3+json",
-  "X-GitHub-Api-Version": "2022-11-28",
-};
+  const url = `${baseUrl}/${language.wordListPath}`;
 
-// Helper to encode content to Base64
-function toBase64(str: string): string {
-  return Buffer.from(str, "utf8").toString("base64");
+  try {
+    const response = await fetch(url, { cache: "force-cache" });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${language.wordListPath} from ${url}: ${response.statusText}. Make sure the file is present in the /public directory.`
+      );
+    }
+    const fileContent = await response.text();
+    const words = fileContent
+      .split("\n")
+      .map((word) => normalizeWord(word, language));
+    const wordSet = new Set(words);
+    wordSets.set(language.code, wordSet);
+    return wordSet;
+  } catch (error) {
+    console.error("Error fetching or parsing word set:", error);
+    throw error;
+  }
 }
 
-// Helper to decode content from Base64
-function fromBase64(str: string): string {
-  return Buffer.from(str, "base64").toString("utf8");
+/**
+ * Returns the word list of a language as a DAWG for move generation, built
+ * only once. Its edges are tiles, so the Spanish "CH" is a single edge.
+ */
+export async function getDawg(languageCode?: LanguageCode) {
+  const language = getLanguage(languageCode);
+  let dawg = dawgs.get(language.code);
+  if (!dawg) {
+    const wordSet = await getWordSet(language.code);
+    dawg = hasMultiLetterTiles(language)
+      ? Dawg.fromWords(wordSet, (word) => splitIntoTiles(word, language))
+      : Dawg.fromWords(wordSet);
+    dawgs.set(language.code, dawg);
+  }
+  return dawg;
 }
 
 export async function getDictionaryWord(word: string): Promise<string | null> {
-  if (!GITHUB_TOKEN) return null;
   const upperCaseWord = word.toUpperCase();
-  const path = `dictionary/${upperCaseWord}.txt`;
 
   try {
-    const response = await fetch(
-      `${GITHUB_API_BASE_URL}/${path}?ref=${GITHUB_BRANCH_GAMES}`,
-      {
-        headers: githubHeaders,
-        cache: "no-store", // We want the freshest definition
-      }
-    );
-
-    if (response.status === 404) {
-      return null; // File doesn't exist
-    }
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch definition for ${upperCaseWord}: ${response.statusText}`
-      );
-    }
-
-    const data = await response.json();
-    return fromBase64(data.content);
+    const data = await getGameStore().read(getDefinitionPath(upperCaseWord));
+    return data ? data.content : null;
   } catch (error) {
     console.error(`Error getting dictionary word "${upperCaseWord}":`, error);
     return null;
@@ -67,62 +83,24 @@ export async function updateDictionaryWord(
   word: string,
   definition: string
 ): Promise<void> {
-  if (!GITHUB_TOKEN) return;
   const upperCaseWord = word.toUpperCase();
-  const path = `dictionary/${upperCaseWord}.txt`;
+  const path = getDefinitionPath(upperCaseWord);
 
   try {
+    const store = getGameStore();
     // First, check if the file exists to get its SHA
     let sha: string | undefined;
     try {
-      const getResponse = await fetch(
-        `${GITHUB_API_BASE_URL}/${path}?ref=${GITHUB_BRANCH_GAMES}`,
-        {
-          headers: githubHeaders,
-        }
-      );
-      if (getResponse.ok) {
-        const data = await getResponse.json();
-        sha = data.sha;
-      } else if (getResponse.status !== 404) {
-        throw new Error(`GitHub API error on get: ${getResponse.statusText}`);
-      }
+      sha = (await store.read(path))?.sha;
     } catch (e) {
       // It is fine if we cannot find the sha
     }
 
-    const content = toBase64(definition);
     const message = sha
       ? `feat: Update definition for ${upperCaseWord}`
       : `feat: Create definition for ${upperCaseWord}`;
 
-    const body: {
-      message: string;
-      content: string;
-      branch: string;
-      sha?: string;
-    } = {
-      message,
-      content,
-      branch: GITHUB_BRANCH_GAMES,
-    };
-
-    if (sha) {
-      body.sha = sha;
-    }
-
-    const putResponse = await fetch(`${GITHUB_API_BASE_URL}/${path}`, {
-      method: "PUT",
-      headers: { ...githubHeaders, "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
-
-    if (!putResponse.ok) {
-      const error = await putResponse.json();
-      throw new Error(
-        `Failed to update definition for ${upperCaseWord}: ${error.message}`
-      );
-    }
+    await store.write(path, definition, { message, sha });
   } catch (error) {
     console.error(`Error updating dictionary word "${upperCaseWord}":`, error);
     // We don't re-throw, as failing to cache shouldn't break the game flow.
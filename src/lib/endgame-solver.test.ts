@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Board, Tile } from "@/types";
+import { solveEndgame } from "./endgame-solver";
+import { createInitialBoard } from "./game-data";
+import { DEFAULT_GAME_RULES } from "./game-rules";
+import { Dawg } from "./move-generator";
+
+const rules = { ...DEFAULT_GAME_RULES, boardSize: 5, premiumSquares: [] };
+const dawg = Dawg.fromWords(["CAT", "CATS", "SCAT"]);
+const POINTS: Record<string, number> = { A: 1, C: 3, Q: 10, S: 1, T: 1 };
+
+let nextId = 0;
+const createTile = (letter: string): Tile => ({
+  id: `t${nextId++}`,
+  letter,
+  points: POINTS[letter],
+});
+
+/** A board with CAT across the middle row, which an S can go before or after. */
+const createBoard = (): Board => {
+  const board = createInitialBoard(rules);
+  Array.from("CAT").forEach((letter, i) => {
+    board[2][i + 1].tile = { ...createTile(letter), x: 2, y: i + 1 };
+  });
+  return board;
+};
+
+describe("solveEndgame", () => {
+  it("goes out to collect the opponent's rack", () => {
+    const solution = solveEndgame(
+      {
+        board: createBoard(),
+        rules,
+        racks: [[createTile("S")], [createTile("S"), createTile("Q")]],
+        scorelessTurns: 0,
+      },
+      dawg
+    );
+    assert.equal(solution.isComplete, true);
+    // 6 for the S, and twice the 11 left on the opponent's rack.
+    assert.equal(solution.spread, 28);
+    assert.equal(solution.line.length, 1);
+  });
+
+  it("blocks the opponent going out when it can't go out itself", () => {
+    const solution = solveEndgame(
+      {
+        board: createBoard(),
+        rules,
+        racks: [[createTile("S"), createTile("Q")], [createTile("S")]],
+        scorelessTurns: 0,
+      },
+      dawg
+    );
+    assert.equal(solution.isComplete, true);
+    // Passing lets the opponent go out for 28. Playing the S scores 6 and
+    // leaves neither player a move, so the game ends on six scoreless turns
+    // with the Q and the opponent's S counting against their racks.
+    assert.equal(solution.spread, 6 - 10 + 1);
+    assert.equal(solution.line[0]?.tiles[0].letter, "S");
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Endgame solver for two-player games once the bag is empty.
+ *
+ * With no tiles left to draw, each player's rack is the tiles the other can't
+ * see, so the rest of the game can be searched exactly. The search is
+ * minimax with alpha-beta pruning over every play and pass, deepened a turn
+ * at a time until it reaches the end of every line or runs out of time.
+ * Positions reached by playing the same moves in another order are looked up
+ * in a transposition table instead of being searched again.
+ *
+ * A line ends when a player goes out, gaining twice the value of the other
+ * rack, or after the scoreless turns that end the game, when both lose the
+ * value of their own racks, as the game's end rules have it.
+ */
+import type { Board, GameRules, GameState, Tile } from "@/types";
+import { countScorelessTurns, getRackValue, SCORELESS_TURN_LIMIT } from "./game-end";
+import { getGameRules } from "./game-rules";
+import { Dawg, GeneratedMove, generateMoves, MoveCache } from "./move-generator";
+
+/** A position with the bag empty, as both players see it. */
+export interface EndgamePosition {
+  board: Board;
+  rules: GameRules;
+  /** The rack of the player to move, then their opponent's. */
+  racks: [Tile[], Tile[]];
+  /** Scoreless turns in a row so far. */
+  scorelessTurns: number;
+}
+
+/** A move in the endgame, null for a pass. */
+export type EndgameMove = GeneratedMove | null;
+
+export interface EndgameOptions {
+  /** Stops deepening the search after this long, though one turn is always searched. */
+  timeLimitMs: number;
+  /** Most turns to search ahead. */
+  maxDepth: number;
+  /** Only these first moves are searched, to find what they are worth. */
+  moves?: EndgameMove[];
+}
+
+export interface EndgameSolution {
+  /** Points the player to move finishes ahead of where they are now, by the best line. */
+  spread: number;
+  /** The best line of moves, starting with the player to move. */
+  line: EndgameMove[];
+  /** Whether every line was searched to the end of the game. */
+  isComplete: boolean;
+  /** Turns searched ahead. */
+  depth: number;
+}
+
+/** What the worker is asked to solve. */
+export interface EndgameRequest {
+  language?: GameRules["language"];
+  position: EndgamePosition;
+  options?: Partial<EndgameOptions>;
+}
+
+export const DEFAULT_ENDGAME_OPTIONS: EndgameOptions = {
+  timeLimitMs: 3000,
+  maxDepth: Infinity,
+};
+
+/** Positions kept in the transposition table before it is cleared. */
+const MAX_TABLE_SIZE = 200_000;
+/** Positions whose moves are kept, fewer as each has many. */
+const MAX_CACHED_MOVES = 5_000;
+/** Lines of the board whose moves are kept for each rack. */
+const MAX_CACHED_LINES = 50_000;
+
+interface SearchResult {
+  value: number;
+  line: EndgameMove[];
+  isComplete: boolean;
+}
+
+interface TableEntry extends SearchResult {
+  depth: number;
+  bound: "exact" | "lower" | "upper";
+}
+
+/** Thrown to stop a search that has run out of time. */
+class SearchTimeout extends Error {}
+
+/** Creates the endgame position of a two-player game with the bag empty, or null. */
+export function createEndgamePosition(
+  gameState: GameState,
+  playerId: string
+): EndgamePosition | null {
+  if (gameState.tileBag.length > 0 || gameState.players.length !== 2) return null;
+  const player = gameState.players.find((p) => p.id === playerId);
+  const opponent = gameState.players.find((p) => p.id !== playerId);
+  if (!player || !opponent) return null;
+  return {
+    board: gameState.board,
+    rules: getGameRules(gameState),
+    racks: [player.rack, opponent.rack],
+    scorelessTurns: countScorelessTurns(gameState.history),
+  };
+}
+
+const getMoveKey = (move: EndgameMove) =>
+  move ? move.tiles.map((t) => `${t.x},${t.y}${t.letter}`).join(";") : "pass";
+
+const getRackKey = (rack: Tile[]) =>
+  rack
+    .map((t) => t.letter)
+    .sort()
+    .join("");
+
+/**
+ * Finds the best line for the player to move to the end of the game, by the
+ * spread it leads to, searching deeper until the time runs out. Moves are
+ * only comparable by what they were found to be worth at the same depth.
+ */
+export function solveEndgame(
+  position: EndgamePosition,
+  dawg: Dawg,
+  options: Partial<EndgameOptions> = {}
+): EndgameSolution {
+  const {
+    timeLimitMs,
+    maxDepth,
+    moves: rootMoves,
+  } = { ...DEFAULT_ENDGAME_OPTIONS, ...options };
+  const { rules } = position;
+  const deadline = Date.now() + timeLimitMs;
+  const board: Board = position.board.map((row) => row.map((square) => ({ ...square })));
+  const racks = position.racks.map((rack) => [...rack]);
+  const placed: string[] = [];
+  const table = new Map<string, TableEntry>();
+  // Moves are found again every time the search deepens, so they are kept,
+  // and the moves on lines that no move has changed are reused.
+  const movesCache = new Map<string, GeneratedMove[]>();
+  const lineCache: MoveCache = new Map();
+  let canTimeOut = false;
+
+  const getPositionKey = (mover: number, scorelessTurns: number) =>
+    [
+      [...placed].sort().join(";"),
+      getRackKey(racks[mover]),
+      getRackKey(racks[1 - mover]),
+      scorelessTurns,
+    ].join("|");
+
+  const getMoves = (mover: number, isRoot: boolean): EndgameMove[] => {
+    if (isRoot && rootMoves) return [...rootMoves];
+    const key = [
+      [...placed].sort().join(";"),
+      racks[mover]
+        .map((t) => t.id)
+        .sort()
+        .join(","),
+    ].join("|");
+    let plays = movesCache.get(key);
+    if (!plays) {
+      if (lineCache.size >= MAX_CACHED_LINES) lineCache.clear();
+      plays = generateMoves(board, racks[mover], dawg, rules, lineCache);
+      if (movesCache.size >= MAX_CACHED_MOVES) movesCache.clear();
+      movesCache.set(key, plays);
+    }
+    return [...plays, null];
+  };
+
+  // Plays a move, returning how to take it back.
+  const play = (mover: number, move: EndgameMove) => {
+    if (!move) return () => {};
+    const rack = racks[mover];
+    const usedIds = new Set(move.tiles.map((t) => t.id));
+    racks[mover] = rack.filter((t) => !usedIds.has(t.id));
+    move.tiles.forEach((tile) => (board[tile.x][tile.y].tile = tile));
+    placed.push(...move.tiles.map((t) => `${t.x},${t.y}${t.letter}`));
+    return () => {
+      racks[mover] = rack;
+      move.tiles.forEach((tile) => (board[tile.x][tile.y].tile = null));
+      placed.length -= move.tiles.length;
+    };
+  };
+
+  /**
+   * Returns what the rest of the game is worth to the player to move, in
+   * points ahead of their opponent, searching at most `depth` turns.
+   */
+  const search = (
+    mover: number,
+    scorelessTurns: number,
+    depth: number,
+    alpha: number,
+    beta: number,
+    isRoot = false
+  ): SearchResult => {
+    if (canTimeOut && Date.now() > deadline) throw new SearchTimeout();
+
+    const key = getPositionKey(mover, scorelessTurns);
+    const entry = table.get(key);
+    if (!isRoot && entry && (entry.isComplete || entry.depth >= depth)) {
+      if (
+        entry.bound === "exact" ||
+        (entry.bound === "lower" && entry.value >= beta) ||
+        (entry.bound === "upper" && entry.value <= alpha)
+      ) {
+        return entry;
+      }
+    }
+
+    const opponentRackValue = getRackValue(racks[1 - mover]);
+    // The best move last time is searched first, then those going out, then
+    // the rest from the highest score, so most lines are cut off early.
+    const bestKey = entry?.line.length ? getMoveKey(entry.line[0]) : null;
+    const getOrder = (move: EndgameMove) =>
+      (bestKey && getMoveKey(move) === bestKey ? 2 : 0) +
+      (move?.tiles.length === racks[mover].length ? 1 : 0);
+    const moves = getMoves(mover, isRoot)
+      .map((move) => ({ move, order: getOrder(move) }))
+      .sort((a, b) => b.order - a.order || (b.move?.score ?? 0) - (a.move?.score ?? 0))
+      .map(({ move }) => move);
+
+    const originalAlpha = alpha;
+    let best: SearchResult | null = null;
+    let isComplete = true;
+    for (const move of moves) {
+      const score = move?.score ?? 0;
+      const undo = play(mover, move);
+      let result: SearchResult;
+      try {
+        const nextScorelessTurns = score === 0 ? scorelessTurns + 1 : 0;
+        if (racks[mover].length === 0) {
+          result = { value: score + 2 * opponentRackValue, line: [], isComplete: true };
+        } else if (nextScorelessTurns >= SCORELESS_TURN_LIMIT) {
+          result = {
+            value: score - getRackValue(racks[mover]) + opponentRackValue,
+            line: [],
+            isComplete: true,
+          };
+        } else if (depth <= 1) {
+          // Past the search, tiles left on a rack are likely to count against it.
+          result = {
+            value: score - getRackValue(racks[mover]) + opponentRackValue,
+            line: [],
+            isComplete: false,
+          };
+        } else {
+          const reply = search(
+            1 - mover,
+            nextScorelessTurns,
+            depth - 1,
+            score - beta,
+            score - alpha
+          );
+          result = { value: score - reply.value, line: reply.line, isComplete: reply.isComplete };
+        }
+      } finally {
+        undo();
+      }
+      isComplete &&= result.isComplete;
+      if (!best || result.value > best.value) {
+        best = { value: result.value, line: [move, ...result.line], isComplete };
+      }
+      alpha = Math.max(alpha, result.value);
+      if (alpha >= beta) break;
+    }
+    best = { ...best!, isComplete };
+
+    if (table.size >= MAX_TABLE_SIZE) table.clear();
+    table.set(key, {
+      ...best,
+      depth,
+      bound:
+        best.value <= originalAlpha ? "upper" : best.value >= beta ? "lower" : "exact",
+    });
+    return best;
+  };
+
+  let solution: EndgameSolution | null = null;
+  for (let depth = 1; depth <= Math.max(1, maxDepth) && !solution?.isComplete; depth++) {
+    try {
+      const result = search(0, position.scorelessTurns, depth, -Infinity, Infinity, true);
+      solution = { spread: result.value, line: result.line, isComplete: result.isComplete, depth };
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+    canTimeOut = true;
+  }
+  return solution!;
+}
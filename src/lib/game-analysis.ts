@@ -0,0 +1,360 @@
+/**
+ * @fileoverview Post-game analysis: every move is compared with the best move
+ * from the same position, found by replaying the game's event log.
+ *
+ * Moves are rated by equity, their score plus the estimated value of the
+ * tiles kept, as the computer players rate them. Once the bag is empty only
+ * the score counts. Passes that timed out weren't a choice and are skipped.
+ * Plays can also be simulated a few turns ahead, to show how likely they
+ * were to win the game, though they are still graded by equity. Once the bag
+ * is empty in a two-player game the endgame can be solved instead, and moves
+ * are then rated by the spread they lead to by the end of the game.
+ */
+import type {
+  AnalysedMove,
+  GameAnalysis,
+  GameEvent,
+  GameState,
+  MoveAnalysis,
+  MoveGrade,
+  PlacedTile,
+  PlayerAccuracy,
+  Tile,
+} from "@/types";
+import { appendGameEvents, replayGameEvents } from "./game-events";
+import { getGameRules, MIN_BAG_SIZE_TO_SWAP } from "./game-rules";
+import { getGameStore } from "./game-store";
+import { Dawg, GeneratedMove, generateMoves } from "./move-generator";
+import type { MoveSimulation, SimulationCandidate } from "./move-simulation";
+import type {
+  EndgameMove,
+  EndgameOptions,
+  EndgameSolution,
+} from "./endgame-solver";
+import {
+  evaluateLeave,
+  findBestSwap,
+} from "./computer-player";
+
+const BLANK = " ";
+
+/** Simulates candidate moves for a player from a position, in the same order. */
+export type SimulateMoves = (
+  gameState: GameState,
+  playerId: string,
+  candidates: SimulationCandidate[]
+) => Promise<MoveSimulation[]>;
+
+/** Solves the endgame for a player from a position, or returns null if it can't be solved. */
+export type SolveEndgame = (
+  gameState: GameState,
+  playerId: string,
+  options?: Pick<EndgameOptions, "moves" | "maxDepth">
+) => Promise<EndgameSolution | null>;
+
+/** A move found from a position, with the tiles to play it out if it's a play. */
+interface FoundMove {
+  move: AnalysedMove;
+  candidate?: SimulationCandidate;
+}
+
+/** Most equity lost for each grade, checked in order. */
+const GRADE_THRESHOLDS: { grade: MoveGrade; maxEquityLost: number }[] = [
+  { grade: "best", maxEquityLost: 0 },
+  { grade: "good", maxEquityLost: 5 },
+  { grade: "inaccuracy", maxEquityLost: 12 },
+  { grade: "mistake", maxEquityLost: 25 },
+];
+
+/**
+ * Moves are measured against at least this much equity, so a few points lost
+ * from a poor position don't count as a move without any accuracy.
+ */
+const MIN_EQUITY_FOR_ACCURACY = 10;
+
+const getMoveGrade = (equityLost: number): MoveGrade =>
+  GRADE_THRESHOLDS.find(({ maxEquityLost }) => equityLost <= maxEquityLost)
+    ?.grade ?? "blunder";
+
+const getAnalysisPath = (gameId: string) => `analysis/${gameId}.json`;
+
+// Blanks are shown as "?" on a rack and in lower case once placed.
+const toRackLetters = (tiles: Tile[]) =>
+  tiles.map((t) => (t.letter === BLANK ? "?" : t.letter));
+const toPlacedLetters = (tiles: PlacedTile[]) =>
+  tiles.map((t) => (t.originalLetter === BLANK ? t.letter.toLowerCase() : t.letter));
+
+const toSimulationStats = ({ expectedSpread, winProbability }: MoveSimulation) => ({
+  expectedSpread,
+  winProbability,
+});
+
+const withoutTiles = (rack: Tile[], tileIds: string[]) =>
+  rack.filter((t) => !tileIds.includes(t.id));
+
+const toAnalysedPlay = (move: GeneratedMove, equity: number): AnalysedMove => ({
+  type: "play",
+  word: move.word,
+  x: move.x,
+  y: move.y,
+  direction: move.direction,
+  tiles: toPlacedLetters(move.tiles),
+  score: move.score,
+  equity,
+});
+
+const describeEndgameMove = (move: EndgameMove) =>
+  move ? `${move.word} ${move.score}` : "pass";
+
+/** Finds every move from a position with its equity, best first. */
+function findMoves(
+  gameState: GameState,
+  rack: Tile[],
+  dawg: Dawg
+): FoundMove[] {
+  const bagSize = gameState.tileBag.length;
+  const { language } = getGameRules(gameState);
+  const getEquity = (score: number, leave: Tile[]) =>
+    bagSize === 0 ? score : score + evaluateLeave(leave, language);
+
+  const plays = generateMoves(
+    gameState.board,
+    rack,
+    dawg,
+    getGameRules(gameState)
+  ).map(
+    (move: GeneratedMove): FoundMove => ({
+      move: toAnalysedPlay(
+        move,
+        getEquity(move.score, withoutTiles(rack, move.tiles.map((t) => t.id)))
+      ),
+      candidate: move,
+    })
+  );
+  const moves: FoundMove[] = [
+    ...plays,
+    { move: { type: "pass", tiles: [], score: 0, equity: getEquity(0, rack) } },
+  ];
+  if (bagSize >= MIN_BAG_SIZE_TO_SWAP) {
+    const swap = findBestSwap(rack, bagSize, language);
+    if (swap) {
+      moves.push({
+        move: {
+          type: "swap",
+          tiles: toRackLetters(swap.tiles),
+          score: 0,
+          equity: swap.value,
+        },
+      });
+    }
+  }
+  return moves.sort((a, b) => b.move.equity - a.move.equity);
+}
+
+/** Rates the move a player made from a position. */
+function rateMove(
+  gameState: GameState,
+  event: Extract<GameEvent, { type: "tilesPlayed" | "tilesSwapped" | "turnPassed" }>,
+  rack: Tile[]
+): AnalysedMove {
+  const bagSize = gameState.tileBag.length;
+  const { language } = getGameRules(gameState);
+  const getEquity = (score: number, leave: Tile[]) =>
+    bagSize === 0 ? score : score + evaluateLeave(leave, language);
+
+  if (event.type === "tilesPlayed") {
+    const mainWord = event.scoreBreakdown?.words[0];
+    return {
+      type: "play",
+      word: event.word,
+      ...(mainWord && { x: mainWord.x, y: mainWord.y, direction: mainWord.direction }),
+      tiles: toPlacedLetters(event.tiles),
+      score: event.score,
+      equity: getEquity(
+        event.score,
+        withoutTiles(rack, event.tiles.map((t) => t.id))
+      ),
+    };
+  }
+  if (event.type === "tilesSwapped") {
+    return {
+      type: "swap",
+      tiles: toRackLetters(rack.filter((t) => event.tileIds.includes(t.id))),
+      score: 0,
+      equity: evaluateLeave(withoutTiles(rack, event.tileIds), language),
+    };
+  }
+  return { type: "pass", tiles: [], score: 0, equity: getEquity(0, rack) };
+}
+
+/**
+ * Rates a move in a solved endgame, returning the best move by the spread it
+ * leads to and the best line, or null if the endgame couldn't be solved.
+ */
+async function rateEndgameMove(
+  position: GameState,
+  event: Extract<GameEvent, { type: "tilesPlayed" | "turnPassed" }>,
+  move: AnalysedMove,
+  solveEndgame: SolveEndgame
+): Promise<{ bestMove: AnalysedMove; bestLine: string[] } | null> {
+  const best = await solveEndgame(position, event.playerId);
+  if (!best?.line.length) return null;
+  const playedMove: EndgameMove =
+    event.type === "tilesPlayed"
+      ? {
+          word: event.word,
+          tiles: event.tiles,
+          score: event.score,
+          x: move.x ?? event.tiles[0].x,
+          y: move.y ?? event.tiles[0].y,
+          direction: move.direction ?? "horizontal",
+        }
+      : null;
+  // Searched as deep as the best move was, so the two can be compared.
+  const played = await solveEndgame(position, event.playerId, {
+    moves: [playedMove],
+    maxDepth: best.depth,
+  });
+  if (!played) return null;
+  move.equity = played.spread;
+  const [bestFirst] = best.line;
+  return {
+    bestMove: bestFirst
+      ? toAnalysedPlay(bestFirst, best.spread)
+      : { type: "pass", tiles: [], score: 0, equity: best.spread },
+    bestLine: best.line.map(describeEndgameMove),
+  };
+}
+
+/**
+ * Analyses every move of a game, using the DAWG of the game's language to
+ * find the moves each player could have made. With a way to simulate moves,
+ * a play and the best move, if that is a play too, are simulated, and with a
+ * way to solve endgames, moves made with the bag empty are rated by them.
+ */
+export async function analyzeGame(
+  gameState: GameState,
+  dawg: Dawg,
+  {
+    simulate,
+    solveEndgame,
+  }: { simulate?: SimulateMoves; solveEndgame?: SolveEndgame } = {}
+): Promise<GameAnalysis> {
+  const events = gameState.events ?? [];
+  const moves: MoveAnalysis[] = [];
+  let state = replayGameEvents(events.slice(0, 1));
+  // Swaps draw the new tiles first, so they are analysed from before the draw.
+  let beforeDraw: GameState | null = null;
+
+  for (const [i, event] of events.slice(1).entries()) {
+    const next = events[i + 2];
+    if (
+      event.type === "tilesDrawn" &&
+      next?.type === "tilesSwapped" &&
+      next.playerId === event.playerId
+    ) {
+      beforeDraw = state;
+    }
+    const isMove =
+      event.type === "tilesPlayed" ||
+      event.type === "tilesSwapped" ||
+      (event.type === "turnPassed" && !event.isTimeout);
+    if (isMove) {
+      const position: GameState =
+        event.type === "tilesSwapped" && beforeDraw ? beforeDraw : state;
+      const rack =
+        position.players.find((p) => p.id === event.playerId)?.rack ?? [];
+      const alternatives = findMoves(position, rack, dawg);
+      const [best] = alternatives;
+      let bestMove = best.move;
+      let bestLine: string[] | undefined;
+      const move = rateMove(position, event, rack);
+      const topScore = Math.max(...alternatives.map((m) => m.move.score));
+      const endgame =
+        solveEndgame && position.tileBag.length === 0 && event.type !== "tilesSwapped"
+          ? await rateEndgameMove(position, event, move, solveEndgame)
+          : null;
+      if (endgame) {
+        ({ bestMove, bestLine } = endgame);
+      } else if (simulate && event.type === "tilesPlayed") {
+        const [played, simulatedBest] = await simulate(position, event.playerId, [
+          { tiles: event.tiles, score: event.score },
+          ...(best.candidate ? [best.candidate] : []),
+        ]);
+        Object.assign(move, toSimulationStats(played));
+        if (simulatedBest) Object.assign(bestMove, toSimulationStats(simulatedBest));
+      }
+      const equityLost = Math.max(0, bestMove.equity - move.equity);
+      moves.push({
+        historyIndex: state.history.length,
+        playerId: event.playerId,
+        rack: toRackLetters(rack),
+        move,
+        bestMove,
+        pointsLost: Math.max(0, topScore - move.score),
+        equityLost,
+        grade: getMoveGrade(equityLost),
+        ...(bestLine && { bestLine }),
+      });
+    }
+    if (event.type !== "tilesDrawn") beforeDraw = null;
+    state = appendGameEvents(state, [event]);
+  }
+
+  const players = gameState.players.map((player): PlayerAccuracy => {
+    const playerMoves = moves.filter((m) => m.playerId === player.id);
+    const accuracyTotal = playerMoves.reduce(
+      (sum, m) =>
+        sum +
+        Math.max(
+          0,
+          1 -
+            m.equityLost /
+              Math.max(m.bestMove.equity, MIN_EQUITY_FOR_ACCURACY)
+        ),
+      0
+    );
+    return {
+      playerId: player.id,
+      accuracy: playerMoves.length
+        ? Math.round((100 * accuracyTotal) / playerMoves.length)
+        : 100,
+      equityLost: playerMoves.reduce((sum, m) => sum + m.equityLost, 0),
+      moves: playerMoves.length,
+      bestMoves: playerMoves.filter((m) => m.grade === "best").length,
+    };
+  });
+
+  return { moves, players, eventCount: events.length };
+}
+
+/** Returns the saved analysis of a game, if it is up to date. */
+export async function getSavedAnalysis(
+  gameState: GameState
+): Promise<GameAnalysis | null> {
+  const data = await getGameStore().read(getAnalysisPath(gameState.gameId));
+  if (!data) return null;
+  const analysis: GameAnalysis = JSON.parse(data.content);
+  return analysis.eventCount === gameState.events?.length ? analysis : null;
+}
+
+/**
+ * Saves the analysis of a game so it is only worked out once. Failing to is
+ * only logged, as it can be worked out again.
+ */
+export async function saveAnalysis(
+  gameId: string,
+  analysis: GameAnalysis
+): Promise<void> {
+  const path = getAnalysisPath(gameId);
+  try {
+    const store = getGameStore();
+    const sha = (await store.read(path))?.sha;
+    await store.write(path, JSON.stringify(analysis), {
+      message: `SYSTEM: Save analysis of game ${gameId}`,
+      sha,
+    });
+  } catch (error) {
+    console.error(`Failed to save the analysis of game ${gameId}:`, error);
+  }
+}
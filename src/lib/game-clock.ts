@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Chess clocks for timed games and deadlines for slow ones.
+ *
+ * Clocks aren't stored, they are worked out from when each turn started and
+ * the time players took over their earlier turns, so the server and every
+ * browser agree on them. A player who runs out of time for a move passes,
+ * and one who uses up their overtime loses on time. A player who misses a
+ * turn deadline gets the game's deadline action instead.
+ */
+import type { GameState, Player } from "@/types";
+import { getGameRules } from "./game-rules";
+import { getCurrentPlayer } from "./turns";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/**
+ * How long the others wait for a move before they can hand the turn to a
+ * computer player, in games without turn deadlines.
+ */
+const DEFAULT_REPLACE_AFTER = 30 * MINUTE;
+
+type ClockState = Pick<
+  GameState,
+  | "rules"
+  | "gamePhase"
+  | "history"
+  | "createdAt"
+  | "turnOrder"
+  | "currentTurn"
+  | "turnStartedAt"
+  | "timeUsed"
+  | "turnPausedMs"
+> & { players: Pick<Player, "id" | "isComputer" | "vacationStartedAt">[] };
+
+export interface PlayerClock {
+  /** Game time left, negative in overtime, or null without a game clock. */
+  remainingMs: number | null;
+  /** Time left for the current move, or null if there is no move limit. */
+  moveRemainingMs: number | null;
+  /** Whether it is the player's turn, so their time is running. */
+  isRunning: boolean;
+}
+
+export interface ClockTimeout {
+  playerId: string;
+  /** When the time runs out, in milliseconds since the epoch. */
+  at: number;
+  /**
+   * "move" passes the turn, "game" loses the game on time and "deadline"
+   * applies the game's deadline action.
+   */
+  type: "move" | "game" | "deadline";
+}
+
+const getTurnPlayerId = (gameState: ClockState) =>
+  gameState.gamePhase === "playing"
+    ? gameState.turnOrder?.[gameState.currentTurn ?? 0]
+    : undefined;
+
+/** Returns a player's clock, or null if the game isn't timed. */
+export function getPlayerClock(
+  gameState: ClockState,
+  playerId: string,
+  now = Date.now()
+): PlayerClock | null {
+  const { timeControl } = getGameRules(gameState);
+  if (!timeControl || !gameState.turnOrder) return null;
+  const isRunning = getTurnPlayerId(gameState) === playerId;
+  const turnElapsed =
+    isRunning && gameState.turnStartedAt
+      ? Math.max(0, now - Date.parse(gameState.turnStartedAt))
+      : 0;
+  const used = (gameState.timeUsed?.[playerId] ?? 0) + turnElapsed;
+  return {
+    remainingMs: timeControl.gameMinutes
+      ? timeControl.gameMinutes * MINUTE - used
+      : null,
+    moveRemainingMs:
+      isRunning && timeControl.moveSeconds
+        ? timeControl.moveSeconds * SECOND - turnElapsed
+        : null,
+    isRunning,
+  };
+}
+
+/** Points a player loses for every minute, or part of one, over time. */
+export function getOvertimePenalty(
+  gameState: ClockState,
+  playerId: string,
+  now = Date.now()
+): number {
+  const { timeControl } = getGameRules(gameState);
+  const remainingMs = getPlayerClock(gameState, playerId, now)?.remainingMs;
+  if (!timeControl || remainingMs === null || remainingMs === undefined) {
+    return 0;
+  }
+  if (remainingMs >= 0) return 0;
+  return Math.ceil(-remainingMs / MINUTE) * timeControl.overtimePenalty;
+}
+
+/**
+ * Returns when the current turn's deadline passes, in milliseconds since the
+ * epoch, or null while the player is on vacation. Games without deadlines
+ * count from the last move in older games, which had no turn start.
+ */
+export function getTurnDeadline(gameState: ClockState): number | null {
+  const player = getCurrentPlayer(gameState);
+  if (!player || player.isComputer || player.vacationStartedAt) return null;
+  const { turnDeadline } = getGameRules(gameState);
+  const startedAt =
+    gameState.turnStartedAt ??
+    gameState.history[gameState.history.length - 1]?.timestamp ??
+    gameState.createdAt;
+  if (!startedAt) return 0;
+  return (
+    Date.parse(startedAt) +
+    (turnDeadline ? turnDeadline.hours * HOUR : DEFAULT_REPLACE_AFTER) +
+    (gameState.turnPausedMs ?? 0)
+  );
+}
+
+/** Finds when the time of the player whose turn it is runs out. */
+export function getNextTimeout(gameState: ClockState): ClockTimeout | null {
+  const { timeControl, turnDeadline } = getGameRules(gameState);
+  const playerId = getTurnPlayerId(gameState);
+  if (!playerId || !gameState.turnStartedAt) return null;
+
+  const startedAt = Date.parse(gameState.turnStartedAt);
+  const timeouts: ClockTimeout[] = [];
+  if (turnDeadline) {
+    const at = getTurnDeadline(gameState);
+    if (at !== null) timeouts.push({ playerId, at, type: "deadline" });
+  }
+  if (timeControl?.moveSeconds) {
+    timeouts.push({
+      playerId,
+      at: startedAt + timeControl.moveSeconds * SECOND,
+      type: "move",
+    });
+  }
+  if (timeControl?.gameMinutes) {
+    const allowed =
+      (timeControl.gameMinutes + timeControl.maxOvertimeMinutes) * MINUTE;
+    timeouts.push({
+      playerId,
+      at: startedAt + allowed - (gameState.timeUsed?.[playerId] ?? 0),
+      type: "game",
+    });
+  }
+  return timeouts.sort((a, b) => a.at - b.at)[0] ?? null;
+}
+
+/** Formats a time as minutes and seconds, with a minus sign in overtime. */
+export function formatClockTime(ms: number): string {
+  const totalSeconds = Math.ceil(Math.abs(ms) / SECOND);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return `${ms < 0 ? "-" : ""}${minutes}:${seconds}`;
+}
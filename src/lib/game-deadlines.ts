@@ -0,0 +1,32 @@
+/**
+ * @fileoverview In-process index of when the timed games this server has
+ * seen next time out, for the deadline checker.
+ *
+ * Nothing is written to the store: a game's deadline is worked out from its
+ * own clock, and the game applies it itself when it is next loaded or played.
+ * The index only lets a long running server move games on that nobody has
+ * open, and is filled from the store by the checker when the server starts.
+ */
+import type { GameState } from "@/types";
+import { getNextTimeout } from "./game-clock";
+
+// Kept on globalThis so the index survives module reloads in development.
+const globalForDeadlines = globalThis as typeof globalThis & {
+  scrabblexGameDeadlines?: Map<string, number>;
+};
+const deadlines: Map<string, number> =
+  (globalForDeadlines.scrabblexGameDeadlines ??= new Map());
+
+/** Notes when a loaded or saved game next times out, if it ever does. */
+export function trackGameDeadline(gameId: string, gameState: GameState | null) {
+  const timeout = gameState && getNextTimeout(gameState);
+  if (timeout) deadlines.set(gameId, timeout.at);
+  else deadlines.delete(gameId);
+}
+
+/** Returns the ids of the tracked games with a timeout that has passed. */
+export function getDueGameIds(now = Date.now()): string[] {
+  return Array.from(deadlines)
+    .filter(([, at]) => at <= now)
+    .map(([gameId]) => gameId);
+}
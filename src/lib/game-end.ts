@@ -0,0 +1,113 @@
+/**
+ * @fileoverview When a game ends and how its result is worked out, following
+ * the official rules.
+ *
+ * The game ends when the bag is empty and a player has used all their tiles,
+ * or after six scoreless turns in a row. Everyone then loses the value of the
+ * tiles left on their rack, which the player who went out gains. Players
+ * tied on points are separated by their scores before those adjustments,
+ * and share a place if that is tied too.
+ */
+import type {
+  GameEndReason,
+  GameResult,
+  PlayedWord,
+  Player,
+  PlayerStanding,
+  ScoreAdjustment,
+  Tile,
+} from "@/types";
+
+export const SCORELESS_TURN_LIMIT = 6;
+
+type ResultPlayer = Pick<Player, "id" | "score">;
+
+export const getRackValue = (rack: Tile[]) =>
+  rack.reduce((sum, tile) => sum + tile.points, 0);
+
+/**
+ * Whether a history entry is a turn: a play, even if it was challenged off,
+ * a swap or a pass. Challenges, resignations and adjustments aren't.
+ */
+const isTurn = (entry: PlayedWord) =>
+  !entry.isChallenge &&
+  !entry.isResign &&
+  !entry.adjustment &&
+  (!entry.isTimeout || !!entry.isPass);
+
+/** Counts the scoreless turns at the end of the history. */
+export function countScorelessTurns(history: PlayedWord[]): number {
+  let count = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (!isTurn(history[i])) continue;
+    if (history[i].score !== 0) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Works out the rack adjustments at the end of a game. Every player loses the
+ * value of their rack, and a player who went out gains all of it.
+ */
+export function getRackAdjustments(
+  players: Pick<Player, "id" | "rack">[],
+  playerOutId?: string
+): ScoreAdjustment[] {
+  const adjustments: ScoreAdjustment[] = players
+    .filter((p) => p.id !== playerOutId && p.rack.length > 0)
+    .map((p) => ({ playerId: p.id, type: "rack", points: -getRackValue(p.rack) }));
+  if (playerOutId) {
+    adjustments.unshift({
+      playerId: playerOutId,
+      type: "rack",
+      points: -adjustments.reduce((sum, a) => sum + a.points, 0),
+    });
+  }
+  return adjustments;
+}
+
+/**
+ * Ranks the players by their final scores, which already include the
+ * adjustments. Players who forfeited come last.
+ */
+export function createGameResult(
+  players: ResultPlayer[],
+  reason: GameEndReason,
+  adjustments: ScoreAdjustment[],
+  forfeitedPlayerIds: string[] = []
+): GameResult {
+  const standings: PlayerStanding[] = players.map((p) => ({
+    playerId: p.id,
+    place: 0,
+    score: p.score,
+    scoreBeforeAdjustments:
+      p.score -
+      adjustments
+        .filter((a) => a.playerId === p.id)
+        .reduce((sum, a) => sum + a.points, 0),
+    ...(forfeitedPlayerIds.includes(p.id) && { hasForfeited: true }),
+  }));
+  const compare = (a: PlayerStanding, b: PlayerStanding) =>
+    Number(!!a.hasForfeited) - Number(!!b.hasForfeited) ||
+    b.score - a.score ||
+    b.scoreBeforeAdjustments - a.scoreBeforeAdjustments;
+  standings.sort(compare);
+  standings.forEach((standing, i) => {
+    standing.place =
+      i > 0 && compare(standings[i - 1], standing) === 0
+        ? standings[i - 1].place
+        : i + 1;
+  });
+
+  const winnerIds = standings
+    .filter((s) => s.place === 1 && !s.hasForfeited)
+    .map((s) => s.playerId);
+  return {
+    reason,
+    standings,
+    adjustments,
+    winnerIds,
+    isTie: winnerIds.length > 1,
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { GameEvent, GameState } from "@/types";
+import { appendGameEvents, replayGameEvents } from "./game-events";
+
+const timestamp = "2025-01-01T00:00:00.000Z";
+
+/** A started game between ANN and BOB, who have each drawn a rack. */
+const createGame = (): GameState => {
+  const gameState = replayGameEvents([
+    { type: "gameCreated", timestamp, gameId: "TEST", seed: 1 },
+    { type: "playerJoined", timestamp, player: { id: "ann", name: "ANN", code: "" } },
+    { type: "playerJoined", timestamp, player: { id: "bob", name: "BOB", code: "" } },
+    { type: "gameStarted", timestamp, turnOrder: ["ann", "bob"], turnOrderDraws: {} },
+  ]);
+  return appendGameEvents(gameState, [
+    { type: "tilesDrawn", timestamp, playerId: "ann", tileIds: gameState.tileBag.slice(0, 7).map((t) => t.id) },
+    { type: "tilesDrawn", timestamp, playerId: "bob", tileIds: gameState.tileBag.slice(7, 14).map((t) => t.id) },
+  ]);
+};
+
+describe("game events", () => {
+  it("replays the same events to the same game", () => {
+    const gameState = createGame();
+    const [tile] = gameState.players[0].rack;
+    const played = appendGameEvents(gameState, [
+      { type: "tilesSwapped", timestamp, playerId: "ann", tileIds: [tile.id] },
+      { type: "turnPassed", timestamp, playerId: "bob" },
+    ]);
+    // As saved, where unset fields are left out.
+    assert.equal(JSON.stringify(replayGameEvents(played.events!)), JSON.stringify(played));
+  });
+
+  it("leaves the state it is given unchanged", () => {
+    const gameState = createGame();
+    const before = JSON.stringify(gameState);
+    appendGameEvents(gameState, [{ type: "turnPassed", timestamp, playerId: "ann" }]);
+    assert.equal(JSON.stringify(gameState), before);
+  });
+
+  it("plays tiles onto the board and passes the turn", () => {
+    const gameState = createGame();
+    const tile = gameState.players[0].rack[0];
+    const played = appendGameEvents(gameState, [
+      {
+        type: "tilesPlayed",
+        timestamp,
+        playerId: "ann",
+        word: tile.letter,
+        tiles: [{ ...tile, x: 7, y: 7 }],
+        score: 4,
+      },
+    ]);
+    assert.equal(played.board[7][7].tile?.id, tile.id);
+    assert.equal(played.players[0].rack.length, 6);
+    assert.equal(played.players[0].score, 4);
+    assert.equal(played.currentTurn, 1);
+    assert.equal(played.history[0].word, tile.letter);
+  });
+
+  it("returns swapped tiles to the bag", () => {
+    const gameState = createGame();
+    const tileIds = gameState.players[0].rack.slice(0, 3).map((t) => t.id);
+    const swapped = appendGameEvents(gameState, [
+      { type: "tilesSwapped", timestamp, playerId: "ann", tileIds },
+    ]);
+    assert.equal(swapped.players[0].rack.length, 4);
+    assert.equal(swapped.tileBag.length, gameState.tileBag.length + 3);
+    assert.ok(tileIds.every((id) => swapped.tileBag.some((t) => t.id === id)));
+    assert.equal(swapped.history[0].isSwap, true);
+  });
+
+  it("keeps a resigning player in a game only computer players would be left in", () => {
+    const gameState = replayGameEvents([
+      { type: "gameCreated", timestamp, gameId: "TEST", seed: 1 },
+      { type: "playerJoined", timestamp, player: { id: "ann", name: "ANN", code: "" } },
+      { type: "playerJoined", timestamp, player: { id: "bob", name: "BOB", code: "" } },
+      {
+        type: "playerJoined",
+        timestamp,
+        player: { id: "bot", name: "EASY BOT", code: "", isComputer: true, difficulty: "easy" },
+      },
+      { type: "gameStarted", timestamp, turnOrder: ["ann", "bob", "bot"], turnOrderDraws: {} },
+    ]);
+    const withoutAnn = appendGameEvents(gameState, [
+      { type: "playerResigned", timestamp, playerId: "ann" },
+    ]);
+    assert.deepEqual(withoutAnn.players.map((p) => p.id), ["bob", "bot"]);
+
+    const ended = appendGameEvents(withoutAnn, [
+      { type: "playerResigned", timestamp, playerId: "bob" },
+      {
+        type: "gameEnded",
+        timestamp,
+        endStatus: "EASY BOT wins as BOB resigned",
+        reason: "forfeit",
+        adjustments: [],
+        forfeitedPlayerIds: ["bob"],
+      },
+    ]);
+    assert.deepEqual(ended.players.map((p) => p.id), ["bob", "bot"]);
+    assert.deepEqual(
+      ended.result?.standings.map((s) => [s.playerId, s.place, !!s.hasForfeited]),
+      [["bot", 1, false], ["bob", 2, true]]
+    );
+  });
+
+  it("rejects events that don't fit the game", () => {
+    const gameState = createGame();
+    const event: GameEvent = {
+      type: "tilesDrawn",
+      timestamp,
+      playerId: "ann",
+      tileIds: [gameState.players[1].rack[0].id],
+    };
+    assert.throws(() => appendGameEvents(gameState, [event]), /is not in the bag/);
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * @fileoverview Event log for games.
+ *
+ * Every change to a game is recorded as a {@link GameEvent}. The reducer here
+ * is pure, so replaying the same events always rebuilds the same game state,
+ * which lets any game be replayed, audited and debugged exactly.
+ */
+import type {
+  GameEvent,
+  GameRules,
+  GameState,
+  PendingPlay,
+  PlayedWord,
+  Player,
+  Tile,
+} from "@/types";
+import { createInitialBoard, createTileBag } from "./game-data";
+import { getGameRules } from "./game-rules";
+import { createGameResult } from "./game-end";
+import { createRandom, createSeed } from "./random";
+import { shuffle } from "./utils";
+
+type EventOf<T extends GameEvent["type"]> = Extract<GameEvent, { type: T }>;
+
+const createEmptyGameState = (gameId: string, rules?: GameRules): GameState => ({
+  gameId,
+  players: [],
+  tileBag: [],
+  board: createInitialBoard(rules),
+  history: [],
+  gamePhase: "playing",
+  rules,
+});
+
+const getPlayer = (state: GameState, playerId: string): Player => {
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player) {
+    throw new Error(`Invalid event: player ${playerId} is not in the game.`);
+  }
+  return player;
+};
+
+/** Removes the tiles with the given ids, in id order, from a list of tiles. */
+const removeTiles = (tiles: Tile[], tileIds: string[], from: string): Tile[] =>
+  tileIds.map((id) => {
+    const index = tiles.findIndex((t) => t.id === id);
+    if (index === -1) {
+      throw new Error(`Invalid event: tile ${id} is not in the ${from}.`);
+    }
+    return tiles.splice(index, 1)[0];
+  });
+
+const pushHistory = (
+  state: GameState,
+  event: GameEvent & { playerId: string },
+  entry: Omit<PlayedWord, "playerId" | "playerName" | "timestamp">
+) => {
+  state.history.push({
+    playerId: event.playerId,
+    playerName: getPlayer(state, event.playerId).name,
+    timestamp: event.timestamp,
+    ...entry,
+  });
+};
+
+/**
+ * Passes the turn to the next player, in games with a fixed turn order,
+ * skipping anyone who lost their turn. The time the turn took is added to
+ * the player's clock.
+ */
+const endTurn = (state: GameState, timestamp: string) => {
+  if (!state.turnOrder?.length) return;
+  const playerId = state.turnOrder[state.currentTurn ?? 0];
+  if (state.turnStartedAt) {
+    const elapsed = Date.parse(timestamp) - Date.parse(state.turnStartedAt);
+    state.timeUsed ??= {};
+    state.timeUsed[playerId] =
+      (state.timeUsed[playerId] ?? 0) + Math.max(0, elapsed);
+  }
+  state.turnStartedAt = timestamp;
+  delete state.turnPausedMs;
+  state.currentTurn = ((state.currentTurn ?? 0) + 1) % state.turnOrder.length;
+  const skipped =
+    state.skippedTurns?.indexOf(state.turnOrder[state.currentTurn]) ?? -1;
+  if (skipped !== -1) {
+    state.skippedTurns!.splice(skipped, 1);
+    endTurn(state, timestamp);
+  }
+};
+
+/** Takes a player out of the turn order, keeping the current turn in place. */
+const removeFromTurnOrder = (
+  state: GameState,
+  playerId: string,
+  timestamp: string
+) => {
+  const index = state.turnOrder?.indexOf(playerId) ?? -1;
+  if (!state.turnOrder || index === -1) return;
+  state.turnOrder.splice(index, 1);
+  let currentTurn = state.currentTurn ?? 0;
+  if (index < currentTurn) currentTurn--;
+  // The next player's turn starts now if it was the removed player's turn.
+  if (index === currentTurn) {
+    state.turnStartedAt = timestamp;
+    delete state.turnPausedMs;
+  }
+  state.currentTurn = state.turnOrder.length
+    ? currentTurn % state.turnOrder.length
+    : 0;
+};
+
+/**
+ * Whether a game ends when a player resigns or loses on time, as it does when
+ * only one player, or only computer players, would be left.
+ */
+export const isGameOverWithout = (state: GameState, playerId: string) => {
+  const remainingPlayers = state.players.filter((p) => p.id !== playerId);
+  return remainingPlayers.length <= 1 || remainingPlayers.every((p) => p.isComputer);
+};
+
+/**
+ * Takes a player who resigned or lost on time out of a game that carries on
+ * without them. Their tiles are shuffled back into the bag. If the game ends
+ * instead, they stay in it to be ranked in the final standings.
+ */
+const removeLosingPlayer = (
+  state: GameState,
+  event: GameEvent & { playerId: string }
+) => {
+  if (isGameOverWithout(state, event.playerId)) return;
+  const player = getPlayer(state, event.playerId);
+  state.tileBag = withRandom(state, (random) =>
+    shuffle([...state.tileBag, ...player.rack], random)
+  );
+  state.players = state.players.filter((p) => p.id !== player.id);
+  removeFromTurnOrder(state, player.id, event.timestamp);
+};
+
+/** Runs `fn` with the game's seeded random numbers, saving their new state. */
+const withRandom = <T>(state: GameState, fn: (random: () => number) => T): T => {
+  const random = createRandom(state.rngState ?? state.seed ?? 0);
+  const result = fn(random.next);
+  state.rngState = random.getState();
+  return result;
+};
+
+/**
+ * Takes back a challenged play: its tiles leave the board for the rack, its
+ * points are lost and the tiles drawn after it are shuffled back into the bag.
+ */
+const withdrawPlay = (state: GameState, pendingPlay: PendingPlay) => {
+  const play = state.history[pendingPlay.historyIndex];
+  const player = getPlayer(state, pendingPlay.playerId);
+  const drawn = removeTiles(
+    player.rack,
+    pendingPlay.drawnTileIds,
+    `rack of ${player.name}`
+  );
+  state.tileBag = withRandom(state, (random) =>
+    shuffle([...state.tileBag, ...drawn], random)
+  );
+  play.tiles.forEach(({ x, y, id, letter, points, originalLetter }) => {
+    state.board[x][y].tile = null;
+    player.rack.push({ id, letter: originalLetter ?? letter, points });
+  });
+  player.score -= play.score;
+  Object.assign(play, { tiles: [], score: 0, isWithdrawn: true });
+  delete play.scoreBreakdown;
+};
+
+const placeTilesOnBoard = (state: GameState, history: PlayedWord[]) => {
+  history.forEach((playedWord) =>
+    playedWord.tiles?.forEach((tile) => {
+      const square = state.board[tile.x]?.[tile.y];
+      if (square) square.tile = tile;
+    })
+  );
+};
+
+/** Fills the bag with every tile of the game's language, shuffled. */
+const fillTileBag = (state: GameState) => {
+  state.tileBag = withRandom(state, (random) =>
+    shuffle(createTileBag(getGameRules(state).language, random), random)
+  );
+};
+
+const eventReducers: {
+  [T in GameEvent["type"]]: (state: GameState, event: EventOf<T>) => void;
+} = {
+  gameCreated: (state, event) => {
+    Object.assign(state, createEmptyGameState(event.gameId, event.rules), {
+      gamePhase: "lobby",
+      createdAt: event.timestamp,
+      seed: event.seed,
+      rngState: event.seed,
+    });
+    fillTileBag(state);
+  },
+  stateImported: (state, event) => {
+    Object.assign(state, createEmptyGameState(event.gameId, event.rules), {
+      players: event.players,
+      tileBag: event.tileBag,
+      history: event.history,
+      gamePhase: event.gamePhase,
+      endStatus: event.endStatus,
+      createdAt: event.createdAt,
+      seed: event.seed,
+      rngState: event.seed,
+    });
+    placeTilesOnBoard(state, state.history);
+  },
+  playerJoined: (state, event) => {
+    const { player } = event;
+    state.players.push({
+      ...player,
+      score: 0,
+      rack: [],
+      // Computer players are always ready.
+      isReady: !!player.isComputer,
+    });
+    // Whoever joins the lobby first, usually the creator, sets up the game.
+    if (state.gamePhase === "lobby" && !state.hostId && !player.isComputer) {
+      state.hostId = player.id;
+    }
+  },
+  playerReplaced: (state, event) => {
+    const player = getPlayer(state, event.playerId);
+    player.isComputer = true;
+    player.difficulty = event.difficulty;
+    delete player.vacationStartedAt;
+  },
+  playerReady: (state, event) => {
+    getPlayer(state, event.playerId).isReady = event.isReady;
+  },
+  vacationChanged: (state, event) => {
+    const player = getPlayer(state, event.playerId);
+    if (event.isOnVacation) {
+      player.vacationStartedAt = event.timestamp;
+      return;
+    }
+    // The deadline of the player's turn moves back by the time they were
+    // away during it.
+    const isPlayersTurn =
+      state.turnOrder?.[state.currentTurn ?? 0] === player.id;
+    if (isPlayersTurn && player.vacationStartedAt && state.turnStartedAt) {
+      const pausedAt = Math.max(
+        Date.parse(player.vacationStartedAt),
+        Date.parse(state.turnStartedAt)
+      );
+      state.turnPausedMs =
+        (state.turnPausedMs ?? 0) +
+        Math.max(0, Date.parse(event.timestamp) - pausedAt);
+    }
+    delete player.vacationStartedAt;
+  },
+  playerRemoved: (state, event) => {
+    const player = getPlayer(state, event.playerId);
+    state.tileBag.push(...player.rack);
+    state.players = state.players.filter((p) => p.id !== player.id);
+    if (state.hostId === player.id) {
+      state.hostId = state.players.find((p) => !p.isComputer)?.id;
+    }
+  },
+  playersReordered: (state, event) => {
+    state.players = event.playerIds.map((id) => getPlayer(state, id));
+  },
+  rulesChanged: (state, event) => {
+    const isNewLanguage =
+      getGameRules(state).language !== getGameRules(event).language;
+    state.rules = event.rules;
+    state.board = createInitialBoard(event.rules);
+    // Nobody has drawn tiles in the lobby, so the bag can be swapped.
+    if (isNewLanguage) fillTileBag(state);
+    // Players have to agree to the new rules.
+    state.players.forEach((p) => (p.isReady = !!p.isComputer));
+  },
+  gameStarted: (state, event) => {
+    state.gamePhase = "playing";
+    state.turnOrder = event.turnOrder;
+    state.currentTurn = 0;
+    state.turnOrderDraws = event.turnOrderDraws;
+    state.turnStartedAt = event.timestamp;
+    state.timeUsed = {};
+    state.tileBag = withRandom(state, (random) => shuffle(state.tileBag, random));
+  },
+  tilesDrawn: (state, event) => {
+    const player = getPlayer(state, event.playerId);
+    player.rack.push(...removeTiles(state.tileBag, event.tileIds, "bag"));
+    if (state.pendingPlay?.playerId === player.id) {
+      state.pendingPlay.drawnTileIds.push(...event.tileIds);
+    }
+  },
+  tilesPlayed: (state, event) => {
+    // Moving on accepts the previous play.
+    delete state.pendingPlay;
+    const player = getPlayer(state, event.playerId);
+    removeTiles(
+      player.rack,
+      event.tiles.map((t) => t.id),
+      `rack of ${player.name}`
+    );
+    player.score += event.score;
+    pushHistory(state, event, {
+      word: event.word,
+      tiles: event.tiles,
+      score: event.score,
+      ...(event.scoreBreakdown && { scoreBreakdown: event.scoreBreakdown }),
+    });
+    placeTilesOnBoard(state, [state.history[state.history.length - 1]]);
+    const { challengeMode } = getGameRules(state);
+    if (challengeMode !== "void" && state.players.length > 1) {
+      state.pendingPlay = {
+        playerId: player.id,
+        historyIndex: state.history.length - 1,
+        words: event.words ?? [event.word],
+        drawnTileIds: [],
+      };
+    }
+    endTurn(state, event.timestamp);
+  },
+  tilesSwapped: (state, event) => {
+    delete state.pendingPlay;
+    const player = getPlayer(state, event.playerId);
+    const returned = removeTiles(
+      player.rack,
+      event.tileIds,
+      `rack of ${player.name}`
+    );
+    state.tileBag = withRandom(state, (random) =>
+      shuffle([...state.tileBag, ...returned], random)
+    );
+    pushHistory(state, event, {
+      word: "[SWAP]",
+      tiles: [],
+      score: 0,
+      isSwap: true,
+    });
+    endTurn(state, event.timestamp);
+  },
+  turnPassed: (state, event) => {
+    delete state.pendingPlay;
+    pushHistory(state, event, {
+      word: "[PASS]",
+      tiles: [],
+      score: 0,
+      isPass: true,
+      ...(event.isTimeout && { isTimeout: true }),
+    });
+    endTurn(state, event.timestamp);
+  },
+  playerResigned: (state, event) => {
+    delete state.pendingPlay;
+    pushHistory(state, event, {
+      word: "[RESIGNED]",
+      tiles: [],
+      score: 0,
+      isResign: true,
+    });
+    removeLosingPlayer(state, event);
+  },
+  flagFell: (state, event) => {
+    delete state.pendingPlay;
+    pushHistory(state, event, {
+      word: "[TIME]",
+      tiles: [],
+      score: 0,
+      isTimeout: true,
+    });
+    removeLosingPlayer(state, event);
+  },
+  playChallenged: (state, event) => {
+    const { pendingPlay } = state;
+    if (!pendingPlay) {
+      throw new Error("Invalid event: there is no play to challenge.");
+    }
+    delete state.pendingPlay;
+    const { challengeMode, challengePenalty = 0 } = getGameRules(state);
+    const isSuccessful = event.invalidWords.length > 0;
+    const penalty = !isSuccessful && challengeMode === "single" ? challengePenalty : 0;
+    if (isSuccessful) {
+      withdrawPlay(state, pendingPlay);
+    } else if (challengeMode === "double") {
+      if (state.turnOrder?.[state.currentTurn ?? 0] === event.playerId) {
+        endTurn(state, event.timestamp);
+      } else {
+        (state.skippedTurns ??= []).push(event.playerId);
+      }
+    }
+    getPlayer(state, event.playerId).score -= penalty;
+    pushHistory(state, event, {
+      word: "[CHALLENGE]",
+      tiles: [],
+      score: penalty ? -penalty : 0,
+      isChallenge: true,
+      invalidWords: event.invalidWords,
+    });
+  },
+  playAccepted: (state) => {
+    if (!state.pendingPlay) {
+      throw new Error("Invalid event: there is no play to accept.");
+    }
+    delete state.pendingPlay;
+  },
+  gameEnded: (state, event) => {
+    event.adjustments.forEach(({ playerId, type, points }) => {
+      const player = getPlayer(state, playerId);
+      player.score += points;
+      pushHistory(state, { ...event, playerId }, {
+        word: type === "rack" ? "[RACK]" : "[OVERTIME]",
+        tiles: [],
+        score: points,
+        adjustment: type,
+        ...(type === "rack" &&
+          player.rack.length > 0 && {
+            rackLetters: player.rack.map((t) => t.letter).join(""),
+          }),
+      });
+    });
+    state.gamePhase = "ended";
+    state.endStatus = event.endStatus;
+    state.result = createGameResult(
+      state.players,
+      event.reason,
+      event.adjustments,
+      event.forfeitedPlayerIds
+    );
+  },
+};
+
+const applyEvent = (state: GameState, event: GameEvent) => {
+  (eventReducers[event.type] as (s: GameState, e: GameEvent) => void)(
+    state,
+    event
+  );
+};
+
+/**
+ * Applies new events to a game state, returning a new state that includes the
+ * events in its log. The given state is not modified.
+ */
+export function appendGameEvents(
+  gameState: GameState,
+  events: GameEvent[]
+): GameState {
+  const { events: previousEvents = [], ...rest } = gameState;
+  const newGameState: GameState = JSON.parse(JSON.stringify(rest));
+  // Reducers take ownership of event data, so give them a copy of the events.
+  const eventsCopy: GameEvent[] = JSON.parse(JSON.stringify(events));
+  eventsCopy.forEach((event) => applyEvent(newGameState, event));
+  newGameState.events = [...previousEvents, ...events];
+  return newGameState;
+}
+
+/** Rebuilds the full game state from its event log. */
+export function replayGameEvents(events: GameEvent[]): GameState {
+  const [first] = events;
+  if (first?.type !== "gameCreated" && first?.type !== "stateImported") {
+    throw new Error("Invalid event log: it must start with the game creation.");
+  }
+  return appendGameEvents(createEmptyGameState(first.gameId), events);
+}
+
+/** Creates the first event of the log for a game saved before events existed. */
+export function createImportEvent(gameState: GameState): GameEvent {
+  return {
+    type: "stateImported",
+    timestamp: new Date().toISOString(),
+    gameId: gameState.gameId,
+    players: gameState.players,
+    tileBag: gameState.tileBag,
+    history: gameState.history,
+    gamePhase: gameState.gamePhase,
+    endStatus: gameState.endStatus,
+    createdAt: gameState.createdAt,
+    seed: gameState.seed ?? createSeed(),
+    rules: gameState.rules,
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * @fileoverview The rules of play on the server: moves, challenges, computer
+ * turns, clock timeouts and the end of the game, each turning a game state
+ * into the next. Server actions apply them for players, and the deadline
+ * checker for games nobody has open.
+ */
+import type {
+  Board,
+  DeadlineAction,
+  GameEndReason,
+  GameEvent,
+  GameState,
+  Move,
+  Player,
+  ScoreAdjustment,
+} from "@/types";
+import { generateCrosswordTitle } from "@/ai/flows/title-flow";
+import {
+  chooseComputerMove,
+  DEFAULT_COMPUTER_DIFFICULTY,
+  getSimulationCandidates,
+  solvesEndgame,
+} from "./computer-player";
+import { getDawg, getWordSet } from "./dictionary-service";
+import { getNextTimeout, getOvertimePenalty } from "./game-clock";
+import {
+  countScorelessTurns,
+  createGameResult,
+  getRackAdjustments,
+  SCORELESS_TURN_LIMIT,
+} from "./game-end";
+import { appendGameEvents, isGameOverWithout } from "./game-events";
+import { getGameRules } from "./game-rules";
+import { commitGameUpdate, GameUpdate } from "./game-service";
+import { generateMoves } from "./move-generator";
+import { MoveRejection, validateMove } from "./move-validator";
+import { simulateGameMoves, solveGameEndgame } from "./simulation-service";
+import { getCurrentPlayer } from "./turns";
+
+export const getWordsFromBoard = (board: Board): string[] => {
+  const words = new Set<string>();
+  for (let i = 0; i < board.length; i++) {
+    let currentHorizontalWord = "";
+    let currentVerticalWord = "";
+    for (let j = 0; j < board.length; j++) {
+      if (board[i][j].tile) currentHorizontalWord += board[i][j].tile!.letter;
+      else {
+        if (currentHorizontalWord.length > 1) words.add(currentHorizontalWord);
+        currentHorizontalWord = "";
+      }
+      if (board[j][i].tile) currentVerticalWord += board[j][i].tile!.letter;
+      else {
+        if (currentVerticalWord.length > 1) words.add(currentVerticalWord);
+        currentVerticalWord = "";
+      }
+    }
+    if (currentHorizontalWord.length > 1) words.add(currentHorizontalWord);
+    if (currentVerticalWord.length > 1) words.add(currentVerticalWord);
+  }
+  return Array.from(words);
+};
+
+/** The points players lose for going over their time. */
+const getOvertimeAdjustments = (gameState: GameState): ScoreAdjustment[] =>
+  gameState.players.flatMap((p) => {
+    const penalty = getOvertimePenalty(gameState, p.id);
+    return penalty ? [{ playerId: p.id, type: "overtime" as const, points: -penalty }] : [];
+  });
+
+/**
+ * Ends the game. The result is worked out here too, so the end status can
+ * name the winners, or the players who tied, for `describe` to fit in.
+ */
+export const endGame = (
+  gameState: GameState,
+  {
+    reason,
+    adjustments,
+    timestamp,
+    forfeitedPlayerIds,
+  }: {
+    reason: GameEndReason;
+    adjustments: ScoreAdjustment[];
+    timestamp: string;
+    forfeitedPlayerIds?: string[];
+  },
+  describe: (winners: string) => string
+): GameState => {
+  const finalScores = gameState.players.map((p) => ({
+    id: p.id,
+    score: adjustments.reduce((score, a) => (a.playerId === p.id ? score + a.points : score), p.score),
+  }));
+  const result = createGameResult(finalScores, reason, adjustments, forfeitedPlayerIds);
+  const winnerNames = result.winnerIds
+    .map((id) => gameState.players.find((p) => p.id === id)!.name)
+    .join(" & ");
+  return appendGameEvents(gameState, [
+    {
+      type: "gameEnded",
+      timestamp,
+      endStatus: describe(winnerNames && `${winnerNames} ${result.isTie ? "tie" : "wins"}`),
+      reason,
+      adjustments,
+      ...(forfeitedPlayerIds && { forfeitedPlayerIds }),
+    },
+  ]);
+};
+
+export const checkAndEndGame = async (gameState: GameState): Promise<GameState> => {
+  const { players, history, tileBag } = gameState;
+  const numPlayers = players.length;
+
+  if (numPlayers === 0 || gameState.gamePhase === "ended") return gameState;
+  // The last play may still be challenged, so it hasn't gone out yet.
+  if (gameState.pendingPlay) return gameState;
+
+  const playerOut = tileBag.length === 0 ? players.find((p) => p.rack.length === 0) : undefined;
+  const isScoreless = countScorelessTurns(history) >= SCORELESS_TURN_LIMIT;
+  if (!playerOut && !isScoreless) return gameState;
+
+  const newGameState = endGame(
+    gameState,
+    {
+      reason: playerOut ? "tilesOut" : "scorelessTurns",
+      adjustments: [...getRackAdjustments(players, playerOut?.id), ...getOvertimeAdjustments(gameState)],
+      timestamp: new Date().toISOString(),
+    },
+    (winners) =>
+      playerOut ? `${winners}!` : `Game ended after ${SCORELESS_TURN_LIMIT} scoreless turns. ${winners}!`
+  );
+
+  if (!newGameState.crosswordTitle) {
+    try {
+      const wordsOnBoard = getWordsFromBoard(newGameState.board);
+      if (wordsOnBoard.length > 0) {
+        const { title } = await generateCrosswordTitle({ words: wordsOnBoard });
+        newGameState.crosswordTitle = title;
+      }
+    } catch (error) {
+      console.error("Failed to generate crossword title:", error);
+    }
+  }
+
+  return newGameState;
+};
+
+export const applyMove = async (gs: GameState, p: Player, move: Move): Promise<GameUpdate & { reasons?: MoveRejection[] }> => {
+  const validation = validateMove(gs, p.id, move, await getWordSet(getGameRules(gs).language));
+  if (!validation.isValid) {
+    return {
+      error: validation.reasons.map((r) => r.message).join(" "),
+      reasons: validation.reasons,
+    };
+  }
+  const m = validation.move;
+  const timestamp = new Date().toISOString();
+  const events: GameEvent[] = [];
+  let message = "";
+
+  if (m.type === "play") {
+    const { score, words, mainWord = "", scoreBreakdown } = validation;
+    message = `feat: ${p.name} played ${mainWord} for ${score}`;
+    events.push({ type: "tilesPlayed", timestamp, playerId: p.id, word: mainWord, tiles: m.tiles, score, words, scoreBreakdown });
+    const drawn = gs.tileBag.slice(0, m.tiles.length);
+    if (drawn.length > 0) {
+      events.push({ type: "tilesDrawn", timestamp, playerId: p.id, tileIds: drawn.map((t) => t.id) });
+    }
+  } else if (m.type === "swap") {
+    message = `feat: ${p.name} swapped ${m.tiles.length} tiles`;
+    // New tiles are drawn before the swapped tiles go back, so they can't be redrawn.
+    const drawn = gs.tileBag.slice(0, m.tiles.length);
+    events.push(
+      { type: "tilesDrawn", timestamp, playerId: p.id, tileIds: drawn.map((t) => t.id) },
+      { type: "tilesSwapped", timestamp, playerId: p.id, tileIds: m.tiles.map((t) => t.id) }
+    );
+  } else if (m.type === "pass") {
+    message = `feat: ${p.name} passed`;
+    events.push({ type: "turnPassed", timestamp, playerId: p.id });
+  }
+  const newGameState = appendGameEvents(gs, events);
+  return { gameState: await checkAndEndGame(newGameState), message };
+};
+
+/**
+ * Accepts or challenges the pending play as one of the opponents of whoever
+ * made it. Only the player whose turn it is can accept it, but anyone else
+ * can challenge it.
+ */
+export const respondToPlay = async (gs: GameState, p: Player, isChallenge: boolean): Promise<GameUpdate> => {
+  const { pendingPlay } = gs;
+  if (!pendingPlay) return { error: "There is no play to respond to." };
+  if (pendingPlay.playerId === p.id) return { error: "You can't respond to your own play." };
+  const { word, playerName } = gs.history[pendingPlay.historyIndex];
+  const timestamp = new Date().toISOString();
+  if (!isChallenge) {
+    if (getCurrentPlayer(gs)?.id !== p.id) return { error: "It is not your turn." };
+    return {
+      gameState: await checkAndEndGame(appendGameEvents(gs, [{ type: "playAccepted", timestamp, playerId: p.id }])),
+      message: `feat: ${p.name} accepted ${word}`,
+    };
+  }
+  const wordSet = await getWordSet(getGameRules(gs).language);
+  const invalidWords = pendingPlay.words.filter((w) => !wordSet.has(w.toUpperCase()));
+  return {
+    gameState: await checkAndEndGame(appendGameEvents(gs, [{ type: "playChallenged", timestamp, playerId: p.id, invalidWords }])),
+    message: invalidWords.length
+      ? `feat: ${p.name} challenged ${playerName}'s ${word} off the board`
+      : `feat: ${p.name} challenged ${playerName}'s ${word} and lost`,
+  };
+};
+
+/**
+ * Decides what a computer player does on its turn, and returns the update
+ * that does it. Simulations and endgame searches take seconds, so they are
+ * run here rather than in the update, which is run again on a conflict.
+ */
+const decideComputerTurn = async (
+  gameState: GameState,
+  player: Player
+): Promise<(gameState: GameState) => Promise<GameUpdate>> => {
+  const { pendingPlay } = gameState;
+  if (pendingPlay && pendingPlay.playerId !== player.id) {
+    // Computer players know every word, but easy ones never challenge.
+    const wordSet = await getWordSet(getGameRules(gameState).language);
+    const isPhony = pendingPlay.words.some((w) => !wordSet.has(w.toUpperCase()));
+    return (gs) => respondToPlay(gs, player, isPhony && player.difficulty !== "easy");
+  }
+  const rules = getGameRules(gameState);
+  const moves = generateMoves(gameState.board, player.rack, await getDawg(rules.language), rules);
+  const evaluation: NonNullable<Parameters<typeof chooseComputerMove>[3]> = {};
+  const candidates = getSimulationCandidates(gameState, player, moves);
+  try {
+    if (solvesEndgame(gameState, player)) {
+      evaluation.endgame = await solveGameEndgame(gameState, player.id);
+    } else if (candidates.length > 1) {
+      const simulations = await simulateGameMoves(gameState, player.id, candidates);
+      evaluation.simulatedMoves = candidates.map((move, i) => ({ move, simulation: simulations[i] }));
+    }
+  } catch (e) {
+    // The move can still be chosen without searching ahead.
+    console.error("Failed to search ahead for a computer move:", e);
+  }
+  const aiMove = chooseComputerMove(gameState, player, moves, evaluation);
+  return async (gs) => {
+    const result = await applyMove(gs, player, aiMove);
+    return "error" in result ? applyMove(gs, player, { type: "pass" }) : result;
+  };
+};
+
+/**
+ * Plays the turns of computer players in a saved game until it is a person's
+ * turn, committing each on its own. A move is chosen from the game as saved,
+ * and only committed if nothing has happened in the game since. Otherwise
+ * whoever changed it plays the computer players' turns instead. Returns the
+ * game as last saved.
+ */
+export async function playComputerTurns(gameData: {
+  gameState: GameState;
+  sha: string;
+}): Promise<{ gameState: GameState; sha: string }> {
+  const { gameId } = gameData.gameState;
+  let player = getCurrentPlayer(gameData.gameState);
+  try {
+    while (player?.isComputer && gameData.gameState.gamePhase === "playing") {
+      const { gameState, sha } = gameData;
+      const takeTurn = await decideComputerTurn(gameState, player);
+      const result = await commitGameUpdate(
+        gameId,
+        (latest) =>
+          latest.events?.length === gameState.events?.length
+            ? takeTurn(latest)
+            : { error: "The game changed while the computer player was thinking." },
+        sha
+      );
+      if ("error" in result) break;
+      gameData = result;
+      player = getCurrentPlayer(gameData.gameState);
+    }
+  } catch (e) {
+    // The move that set the computer player going has been saved already.
+    console.error("Failed to play a computer player's turn:", e);
+  }
+  return gameData;
+}
+
+/**
+ * Takes a player who resigned or lost on time out of the game. With more than
+ * two players the game carries on without them, unless only computer players
+ * would be left.
+ */
+export const eliminatePlayer = (
+  gameState: GameState,
+  player: Player,
+  event: GameEvent & { playerId: string },
+  reason: string
+): GameState => {
+  const newGameState = appendGameEvents(gameState, [event]);
+  if (!isGameOverWithout(gameState, player.id)) return newGameState;
+  // Whoever is left wins, whatever the scores were.
+  return endGame(
+    newGameState,
+    { reason: "forfeit", adjustments: [], timestamp: event.timestamp, forfeitedPlayerIds: [player.id] },
+    (winners) => (winners ? `${winners} as ${player.name} ${reason}` : `${player.name} ${reason}`)
+  );
+};
+
+/**
+ * Applies every clock timeout that has passed, in order: a player out of time
+ * for their move passes, one out of overtime loses on time and one who missed
+ * a turn deadline gets the game's deadline action. Events are dated when the
+ * time ran out, so the next player's clock starts from then.
+ */
+export const applyTimeouts = async (
+  gameState: GameState,
+  now = Date.now()
+): Promise<{ gameState: GameState; message: string }> => {
+  const messages: string[] = [];
+  let timeout = getNextTimeout(gameState);
+  // Computer players move as soon as it is their turn, once this is saved.
+  while (timeout && timeout.at <= now && !getCurrentPlayer(gameState)?.isComputer) {
+    const { playerId } = timeout;
+    const player = gameState.players.find((p) => p.id === playerId)!;
+    const timestamp = new Date(timeout.at).toISOString();
+    const isDeadline = timeout.type === "deadline";
+    const action: DeadlineAction = isDeadline
+      ? getGameRules(gameState).turnDeadline!.action
+      : timeout.type === "move"
+      ? "pass"
+      : "forfeit";
+    if (action === "pass") {
+      gameState = await checkAndEndGame(
+        appendGameEvents(gameState, [{ type: "turnPassed", timestamp, playerId, isTimeout: true }])
+      );
+      messages.push(`feat: ${player.name} ran out of time for the move`);
+    } else if (action === "computer") {
+      gameState = appendGameEvents(gameState, [
+        { type: "playerReplaced", timestamp, playerId, difficulty: DEFAULT_COMPUTER_DIFFICULTY },
+      ]);
+      messages.push(`SYSTEM: Replaced player ${player.name} with ${DEFAULT_COMPUTER_DIFFICULTY} AI after the turn deadline.`);
+    } else {
+      const reason = isDeadline ? "missed the turn deadline" : "ran out of time";
+      gameState = eliminatePlayer(gameState, player, { type: "flagFell", timestamp, playerId }, reason);
+      messages.push(`feat: ${player.name} ${isDeadline ? "forfeited after the turn deadline" : "lost on time"}`);
+    }
+    timeout = getNextTimeout(gameState);
+  }
+  return { gameState, message: messages.filter(Boolean).join(", ") };
+};
+
+/**
+ * Applies the timeouts of a saved game that have passed, then plays any
+ * computer players' turns that follow, or returns an error if none have.
+ */
+export const applyDueTimeouts = async (gameId: string) => {
+  const result = await commitGameUpdate(gameId, async (gameState) => {
+    const timeoutResult = await applyTimeouts(gameState);
+    if (!timeoutResult.message) return { error: "No time has run out." };
+    return timeoutResult;
+  });
+  return "error" in result ? result : playComputerTurns(result);
+};
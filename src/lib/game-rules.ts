@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Rules a game is played with, chosen when it is created.
+ *
+ * Games saved without rules are played with {@link DEFAULT_GAME_RULES}.
+ */
+import type {
+  ChallengeMode,
+  DeadlineAction,
+  GameRules,
+  GameState,
+  PremiumSquareGroup,
+  TimeControl,
+} from "@/types";
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS } from "./languages";
+
+export type GameRulesPreset = "standard" | "super";
+
+const STANDARD_PREMIUM_SQUARES: PremiumSquareGroup[] = [
+  {
+    multiplierType: "word",
+    multiplier: 3,
+    squares: [[0,0], [0,7], [0,14], [7,0], [7,14], [14,0], [14,7], [14,14]],
+  },
+  {
+    multiplierType: "word",
+    multiplier: 2,
+    squares: [[1,1], [2,2], [3,3], [4,4], [1,13], [2,12], [3,11], [4,10], [10,4], [11,3], [12,2], [13,1], [10,10], [11,11], [12,12], [13,13], [7,7]],
+  },
+  {
+    multiplierType: "letter",
+    multiplier: 3,
+    squares: [[1,5], [1,9], [5,1], [5,5], [5,9], [5,13], [9,1], [9,5], [9,9], [9,13], [13,5], [13,9]],
+  },
+  {
+    multiplierType: "letter",
+    multiplier: 2,
+    squares: [[0,3], [0,11], [2,6], [2,8], [3,0], [3,7], [3,14], [6,2], [6,6], [6,8], [6,12], [7,3], [7,11], [8,2], [8,6], [8,8], [8,12], [11,0], [11,7], [11,14], [12,6], [12,8], [14,3], [14,11]],
+  },
+];
+
+/**
+ * Reflects squares from the top left eighth of a board into the other seven,
+ * so a symmetric layout only lists each square once.
+ */
+const mirrorSquares = (
+  size: number,
+  squares: [number, number][]
+): [number, number][] => {
+  const last = size - 1;
+  const mirrored = new Map<string, [number, number]>();
+  squares.forEach(([r, c]) => {
+    [
+      [r, c], [c, r], [r, last - c], [last - c, r],
+      [last - r, c], [c, last - r], [last - r, last - c], [last - c, last - r],
+    ].forEach(([x, y]) => mirrored.set(`${x},${y}`, [x, y]));
+  });
+  return Array.from(mirrored.values());
+};
+
+const SUPER_BOARD_SIZE = 21;
+
+const SUPER_PREMIUM_SQUARES: PremiumSquareGroup[] = [
+  { multiplierType: "word", multiplier: 4, squares: [[0, 0]] },
+  { multiplierType: "word", multiplier: 3, squares: [[0, 7], [0, 10]] },
+  {
+    multiplierType: "word",
+    multiplier: 2,
+    squares: [[1, 1], [2, 2], [3, 3], [4, 4], [5, 5], [6, 6], [10, 10]],
+  },
+  { multiplierType: "letter", multiplier: 3, squares: [[1, 5], [5, 9], [8, 8]] },
+  {
+    multiplierType: "letter",
+    multiplier: 2,
+    squares: [[0, 3], [2, 7], [3, 10], [6, 10], [9, 9]],
+  },
+].map((group) => ({
+  ...group,
+  squares: mirrorSquares(SUPER_BOARD_SIZE, group.squares as [number, number][]),
+})) as PremiumSquareGroup[];
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  boardSize: 15,
+  rackSize: 7,
+  bingoBonus: 50,
+  maxPlayers: 4,
+  premiumSquares: STANDARD_PREMIUM_SQUARES,
+  language: DEFAULT_LANGUAGE,
+  challengeMode: "void",
+  challengePenalty: 5,
+};
+
+export const GAME_RULES_PRESETS: Record<GameRulesPreset, GameRules> = {
+  standard: DEFAULT_GAME_RULES,
+  super: {
+    ...DEFAULT_GAME_RULES,
+    boardSize: SUPER_BOARD_SIZE,
+    premiumSquares: SUPER_PREMIUM_SQUARES,
+  },
+};
+
+export const RULES_PRESET_OPTIONS: { preset: GameRulesPreset; label: string }[] = [
+  { preset: "standard", label: "15×15" },
+  { preset: "super", label: "Super 21×21" },
+];
+
+/** Finds the preset a set of rules was made from, by the size of its board. */
+export const getRulesPreset = (rules: GameRules): GameRulesPreset | undefined =>
+  RULES_PRESET_OPTIONS.find(
+    ({ preset }) => GAME_RULES_PRESETS[preset].boardSize === rules.boardSize
+  )?.preset;
+
+export const CHALLENGE_MODE_OPTIONS: { mode: ChallengeMode; label: string }[] = [
+  { mode: "void", label: "No challenges" },
+  { mode: "single", label: "Single challenge" },
+  { mode: "double", label: "Double challenge" },
+];
+
+export type TimeControlPreset = "untimed" | "tournament" | "blitz";
+
+export const TIME_CONTROL_OPTIONS: {
+  preset: TimeControlPreset;
+  label: string;
+  timeControl?: TimeControl;
+}[] = [
+  { preset: "untimed", label: "No clock" },
+  {
+    preset: "tournament",
+    label: "25 minutes each",
+    timeControl: { gameMinutes: 25, overtimePenalty: 10, maxOvertimeMinutes: 10 },
+  },
+  {
+    preset: "blitz",
+    label: "Blitz, 1 minute a move",
+    timeControl: { moveSeconds: 60, overtimePenalty: 0, maxOvertimeMinutes: 0 },
+  },
+];
+
+/** Finds the preset a time control was chosen from, by its times. */
+export const getTimeControlPreset = (
+  timeControl?: TimeControl
+): TimeControlPreset | undefined =>
+  TIME_CONTROL_OPTIONS.find(
+    (option) =>
+      option.timeControl?.gameMinutes === timeControl?.gameMinutes &&
+      option.timeControl?.moveSeconds === timeControl?.moveSeconds
+  )?.preset;
+
+/** Deadlines to choose from, in hours, where 0 is no deadline. */
+export const TURN_DEADLINE_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: "No deadline" },
+  { hours: 24, label: "1 day a move" },
+  { hours: 72, label: "3 days a move" },
+  { hours: 168, label: "1 week a move" },
+];
+
+export const DEADLINE_ACTION_OPTIONS: {
+  action: DeadlineAction;
+  label: string;
+}[] = [
+  { action: "pass", label: "Pass when late" },
+  { action: "computer", label: "Computer takes over when late" },
+  { action: "forfeit", label: "Forfeit when late" },
+];
+
+/** Tiles that have to be left in the bag for a player to swap. */
+export const MIN_BAG_SIZE_TO_SWAP = 7;
+
+/** Rules saved before a rule was added are played with its default. */
+export const getGameRules = (gameState: Pick<GameState, "rules">): GameRules => ({
+  ...DEFAULT_GAME_RULES,
+  ...gameState.rules,
+});
+
+/** Returns why a set of rules can't be played with, or null if it can. */
+export function validateGameRules(rules: GameRules): string | null {
+  const isWholeNumber = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+  // An even board has no centre square for the first word or to mirror around.
+  if (!isWholeNumber(rules.boardSize, 5, 25) || rules.boardSize % 2 === 0) {
+    return "The board must have an odd number of rows between 5 and 25.";
+  }
+  if (!isWholeNumber(rules.rackSize, 2, 10)) {
+    return "Racks must hold between 2 and 10 tiles.";
+  }
+  if (!isWholeNumber(rules.bingoBonus, 0, 500)) {
+    return "The bingo bonus must be between 0 and 500 points.";
+  }
+  if (!isWholeNumber(rules.maxPlayers, 1, 8)) {
+    return "Games must allow between 1 and 8 players.";
+  }
+  const isOnBoard = ([r, c]: [number, number]) =>
+    isWholeNumber(r, 0, rules.boardSize - 1) &&
+    isWholeNumber(c, 0, rules.boardSize - 1);
+  const isValidGroup = (group: PremiumSquareGroup) =>
+    (group.multiplierType === "letter" || group.multiplierType === "word") &&
+    isWholeNumber(group.multiplier, 1, 10) &&
+    Array.isArray(group.squares) &&
+    group.squares.every(isOnBoard);
+  if (!Array.isArray(rules.premiumSquares) || !rules.premiumSquares.every(isValidGroup)) {
+    return "Premium squares must be on the board with a valid multiplier.";
+  }
+  if (
+    rules.language !== undefined &&
+    !LANGUAGE_OPTIONS.some(({ code }) => code === rules.language)
+  ) {
+    return "Invalid language.";
+  }
+  if (
+    rules.challengeMode !== undefined &&
+    !CHALLENGE_MODE_OPTIONS.some(({ mode }) => mode === rules.challengeMode)
+  ) {
+    return "Invalid challenge mode.";
+  }
+  if (
+    rules.challengePenalty !== undefined &&
+    !isWholeNumber(rules.challengePenalty, 0, 100)
+  ) {
+    return "The challenge penalty must be between 0 and 100 points.";
+  }
+  const { timeControl } = rules;
+  if (timeControl) {
+    const isOptional = (value: unknown, min: number, max: number) =>
+      value === undefined || isWholeNumber(value, min, max);
+    if (
+      !isOptional(timeControl.gameMinutes, 1, 600) ||
+      !isOptional(timeControl.moveSeconds, 10, 3600) ||
+      !isWholeNumber(timeControl.overtimePenalty, 0, 100) ||
+      !isWholeNumber(timeControl.maxOvertimeMinutes, 0, 60)
+    ) {
+      return "Invalid time control.";
+    }
+    if (!timeControl.gameMinutes && !timeControl.moveSeconds) {
+      return "A time control needs a game or move time.";
+    }
+  }
+  const { turnDeadline } = rules;
+  if (turnDeadline) {
+    if (!isWholeNumber(turnDeadline.hours, 1, 720)) {
+      return "Turn deadlines must be between 1 hour and 30 days.";
+    }
+    if (
+      !DEADLINE_ACTION_OPTIONS.some(({ action }) => action === turnDeadline.action)
+    ) {
+      return "Invalid deadline action.";
+    }
+  }
+  return null;
+}
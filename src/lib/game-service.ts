@@ -1,59 +1,33 @@
 /**
- * @fileoverview Service for interacting with GitHub to store and retrieve game state.
+ * @fileoverview Service for storing and retrieving game state.
  */
-import type { GameState, Tile } from "@/types";
-import { createInitialBoard, TILE_BAG } from "./game-data";
-
-export const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
-export const GITHUB_USER_REPO = "iamogbz/scrabblex";
-export const GITHUB_BRANCH_BASE = "main";
-export const GITHUB_BRANCH_GAMES = "games";
-
-const GITHUB_API_URL = `https://api.github.com/repos/${GITHUB_USER_REPO}/contents/`;
-
-if (!GITHUB_TOKEN) {
-  console.warn(
-    "GITHUB_TOKEN environment variable is not set. Game state will not be persisted."
-  );
-}
-
-const githubHeaders = {
-  Authorization: `token ${GITHUB_TOKEN}`,
-  Accept: "application/vnd.github.v3+json",
-  "X-GitHub-Api-Version": "2022-11-28",
-};
-
-// Helper to encode content to Base64
-function toBase64(str: string): string {
-  return Buffer.from(str, "utf8").toString("base64");
-}
-
-// Helper to decode content from Base64
-function fromBase64(str: string): string {
-  return Buffer.from(str, "base64").toString("utf8");
-}
-
-const shuffle = <T>(array: T[]): T[] => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
-};
-
-const generateTileId = () => {
-  return Math.random().toString(36).substring(2, 6).toUpperCase();
-};
-
-const ensureTileId = <T extends Tile>(tile: T): T => {
+import type { GameRules, GameState, Tile } from "@/types";
+import { createInitialBoard, createTileBag } from "./game-data";
+import { getGamePath, getGameStore, StoreConflictError } from "./game-store";
+import { createImportEvent, replayGameEvents } from "./game-events";
+import { publishGameUpdate } from "./game-updates";
+import { trackGameDeadline } from "./game-deadlines";
+import { createRandom, createSeed, createTileId } from "./random";
+import { shuffle } from "./utils";
+import { GAME_STATE_CHANGED_ERROR } from "./constants";
+import { getGameRules } from "./game-rules";
+import { hashPlayerCode, isHashedCode } from "./player-auth";
+
+const MAX_UPDATE_ATTEMPTS = 3;
+
+
+/** Gives a tile an id if it doesn't have one, without reusing existing ids. */
+const ensureTileId = <T extends Tile>(
+  tile: T,
+  random: () => number,
+  usedIds: Set<string>
+): T => {
   if (!tile.id) {
-    return { ...tile, id: generateTileId() };
+    return { ...tile, id: createTileId(random, usedIds) };
   }
   return tile;
 };
 
-
 const countTiles = (tiles: Tile[]) => {
   return tiles.reduce((acc, tile) => {
     const letterToCount = tile.originalLetter
@@ -67,47 +41,66 @@ const countTiles = (tiles: Tile[]) => {
 export async function getGame(
   gameId: string
 ): Promise<{ gameState: GameState; sha: string } | null> {
-  if (!GITHUB_TOKEN) return null;
   try {
-    const response = await fetch(
-      `${GITHUB_API_URL}${gameId}.json?ref=${GITHUB_BRANCH_GAMES}`,
-      {
-        headers: githubHeaders,
-        cache: "no-store",
-      }
-    );
+    const data = await getGameStore().read(getGamePath(gameId));
+    if (!data) {
+      return null;
+    }
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      throw new Error(`Failed to fetch game: ${response.statusText}`);
+    let gameState: GameState = JSON.parse(data.content);
+    if (gameState.events?.length) {
+      // The event log is the source of truth, everything else is derived.
+      return {
+        gameState: {
+          ...replayGameEvents(gameState.events),
+          crosswordTitle: gameState.crosswordTitle,
+        },
+        sha: data.sha,
+      };
     }
 
-    const data = await response.json();
-    let gameState: GameState = JSON.parse(fromBase64(data.content));
+    // --- Legacy games saved before the event log existed ---
     let stateWasModifiedByBackcompat = false;
+    // Corrections use the game's seed too, so they can be reproduced.
+    gameState.seed ??= createSeed();
+    const random = createRandom(gameState.seed).next;
+    const usedIds = new Set(
+      [
+        ...gameState.tileBag,
+        ...gameState.players.flatMap((p) => p.rack),
+        ...gameState.history.flatMap((h) => h.tiles ?? []),
+      ].map((t) => t.id)
+    );
 
     // --- Backward Compatibility: Ensure all tiles have IDs ---
     gameState.tileBag = gameState.tileBag.map(tile => {
         if (!tile.id) stateWasModifiedByBackcompat = true;
-        return ensureTileId(tile);
+        return ensureTileId(tile, random, usedIds);
     });
 
     gameState.players = gameState.players.map((player) => {
       const newPlayer = { ...player, name: player.name.toUpperCase() };
       newPlayer.rack = newPlayer.rack.map(tile => {
         if (!tile.id) stateWasModifiedByBackcompat = true;
-        return ensureTileId(tile);
+        return ensureTileId(tile, random, usedIds);
       });
       return newPlayer;
     });
+    // Codes were saved as plain text before they were hashed.
+    const codesWereHashed = gameState.players.some((p) => !isHashedCode(p.code));
+    gameState.players = await Promise.all(
+      gameState.players.map(async (player) =>
+        isHashedCode(player.code)
+          ? player
+          : { ...player, code: await hashPlayerCode(player.code) }
+      )
+    );
 
     gameState.history = gameState.history.map(playedWord => {
       if (playedWord.tiles) {
         playedWord.tiles = playedWord.tiles.map(tile => {
             if (!tile.id) stateWasModifiedByBackcompat = true;
-            return ensureTileId(tile);
+            return ensureTileId(tile, random, usedIds);
         });
       }
       return playedWord;
@@ -117,7 +110,8 @@ export async function getGame(
     let sha: string = data.sha;
     let stateWasModified = false;
     // --- Board Reconstruction from History ---
-    const reconstructedBoard = createInitialBoard();
+    const rules = getGameRules(gameState);
+    const reconstructedBoard = createInitialBoard(rules);
     if (gameState.history) {
       gameState.history.forEach((playedWord) => {
         if (playedWord.tiles) {
@@ -134,14 +128,17 @@ export async function getGame(
     }
     gameState.board = reconstructedBoard;
 
+    let updatedPlayers = gameState.players;
+    let updatedTileBag = gameState.tileBag;
     if (gameState.gamePhase === "playing") {
       // --- Tile Bag Verification ---
-      const initialTileCounts = countTiles(TILE_BAG);
+      const allTiles = createTileBag(rules.language, random, new Set(usedIds));
+      const initialTileCounts = countTiles(allTiles);
 
       const tilesInRacks = gameState.players.flatMap((p) => p.rack);
       const tilesOnBoard = gameState.history.flatMap((h) =>
         h.tiles ? h.tiles.map((t) => ({
-          ...ensureTileId(t), // Ensure ID for comparison
+          ...t,
           letter: t.originalLetter || t.letter,
           points: t.points,
         })) : []
@@ -155,10 +152,13 @@ export async function getGame(
         const initialCount = initialTileCounts[letter];
         const inPlayCount = tilesInPlayCounts[letter] || 0;
         const expectedCountInBag = initialCount - inPlayCount;
-        const tileInfo = TILE_BAG.find((t) => t.letter === letter)!;
+        const tileInfo = allTiles.find((t) => t.letter === letter)!;
         for (let i = 0; i < expectedCountInBag; i++) {
-           // We create a new tile with new ID to avoid duplicates from the master TILE_BAG
-          expectedTileBag.push({ ...tileInfo, id: generateTileId() });
+           // We create a new tile with new ID to avoid duplicates from the full bag
+          expectedTileBag.push({
+            ...tileInfo,
+            id: createTileId(random, usedIds),
+          });
         }
       }
 
@@ -174,14 +174,14 @@ export async function getGame(
 
       if (!isBagCorrect) {
         console.warn(`Correcting tile bag for game ${gameId}`);
-        gameState.tileBag = shuffle(expectedTileBag);
+        gameState.tileBag = shuffle(expectedTileBag, random);
         stateWasModified = true;
       }
 
       // --- Rack Replenishment ---
       const newTileBag = [...gameState.tileBag];
-      const updatedPlayers = gameState.players.map((player) => {
-        const tilesNeeded = 7 - player.rack.length;
+      updatedPlayers = gameState.players.map((player) => {
+        const tilesNeeded = rules.rackSize - player.rack.length;
         if (tilesNeeded > 0 && newTileBag.length > 0) {
           const tilesToDraw = Math.min(tilesNeeded, newTileBag.length);
           const newTiles = newTileBag.splice(0, tilesToDraw);
@@ -193,29 +193,41 @@ export async function getGame(
         }
         return player;
       });
+      updatedTileBag = newTileBag;
+    }
 
-      if (stateWasModified || stateWasModifiedByBackcompat) {
-        const updatedGameState: GameState = {
-          ...gameState,
-          players: updatedPlayers,
-          tileBag: newTileBag,
-        };
-
-        const message = stateWasModifiedByBackcompat
-          ? `SYSTEM: Add unique IDs to tiles for game ${gameId}`
-          : `SYSTEM: Corrected tile bag and player racks for game ${gameId}`;
-
+    // Hashing is slow, so hashed codes are saved rather than hashed on every read.
+    if (stateWasModified || stateWasModifiedByBackcompat || codesWereHashed) {
+      const updatedGameState: GameState = {
+        ...gameState,
+        players: updatedPlayers,
+        tileBag: updatedTileBag,
+      };
+      updatedGameState.events = [createImportEvent(updatedGameState)];
+
+      const message = stateWasModifiedByBackcompat
+        ? `SYSTEM: Add unique IDs to tiles for game ${gameId}`
+        : stateWasModified
+          ? `SYSTEM: Corrected tile bag and player racks for game ${gameId}`
+          : `SYSTEM: Hash player codes for game ${gameId}`;
+
+      try {
         const updatedData = await updateGame(
           gameId,
           updatedGameState,
           sha,
           message
         );
-
-        return { gameState: updatedGameState, sha: updatedData.content.sha };
+        return { gameState: updatedGameState, sha: updatedData.sha };
+      } catch (error) {
+        // Another request got there first, use the state it saved instead.
+        if (error instanceof StoreConflictError) return getGame(gameId);
+        throw error;
       }
     }
 
+    // Start the event log from the saved snapshot, it is stored on next update.
+    gameState.events = [createImportEvent(gameState)];
     return { gameState, sha };
   } catch (error) {
     console.error("Error getting game:", error);
@@ -223,79 +235,122 @@ export async function getGame(
   }
 }
 
-export async function createNewGame(gameId: string): Promise<GameState> {
-  const initialGameState: GameState = {
-    gameId,
-    players: [],
-    tileBag: shuffle(TILE_BAG.map(t => ({...t, id: generateTileId()}))), // Ensure fresh IDs
-    board: createInitialBoard(),
-    history: [],
-    gamePhase: "playing",
-    createdAt: new Date().toISOString(),
-  };
-
-  if (!GITHUB_TOKEN) {
-    console.log("No GitHub token, returning in-memory game state.");
-    return initialGameState;
-  }
+/** Lists the ids of every game in the store. */
+export async function listGameIds(): Promise<string[]> {
+  const paths = await getGameStore().list("");
+  return paths
+    .filter((filePath) => filePath.endsWith(".json"))
+    .map((filePath) => filePath.slice(0, -".json".length));
+}
 
+/** Creates the state of a new game without saving it. */
+export const createInitialGameState = (gameId: string, rules?: GameRules) =>
+  replayGameEvents([
+    {
+      type: "gameCreated",
+      timestamp: new Date().toISOString(),
+      gameId,
+      seed: createSeed(),
+      rules,
+    },
+  ]);
+
+/** Saves a game for the first time, such as one set up before it is saved. */
+export async function saveNewGame(
+  gameState: GameState,
+  message = `feat: Create game ${gameState.gameId}`
+): Promise<GameState> {
   try {
-    const content = toBase64(JSON.stringify(initialGameState, null, 2));
-    const response = await fetch(`${GITHUB_API_URL}${gameId}.json`, {
-      method: "PUT",
-      headers: { ...githubHeaders, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        message: `feat: Create game ${gameId}`,
-        content,
-        branch: GITHUB_BRANCH_GAMES,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Failed to create game: ${error.message}`);
-    }
-
-    return initialGameState;
+    await getGameStore().write(
+      getGamePath(gameState.gameId),
+      JSON.stringify(gameState, null, 2),
+      { message }
+    );
+    return gameState;
   } catch (error) {
     console.error("Error creating game:", error);
     throw error;
   }
 }
 
+export async function createNewGame(
+  gameId: string,
+  rules?: GameRules
+): Promise<GameState> {
+  return saveNewGame(createInitialGameState(gameId, rules));
+}
+
 export async function updateGame(
   gameId: string,
   gameState: GameState,
   sha: string,
   message?: string
-): Promise<any> {
-  if (!GITHUB_TOKEN) return;
+): Promise<{ sha: string }> {
   try {
-    // Ensure all tiles have IDs before saving
-    gameState.tileBag.forEach(ensureTileId);
-    gameState.players.forEach(p => p.rack.forEach(ensureTileId));
-    gameState.history.forEach(h => h.tiles?.forEach(ensureTileId));
-
-    const content = toBase64(JSON.stringify(gameState, null, 2));
-
-    const response = await fetch(`${GITHUB_API_URL}${gameId}.json`, {
-      method: "PUT",
-      headers: { ...githubHeaders, "Content-Type": "application/json" },
-      body: JSON.stringify({
-        message: message || `feat: Update game ${gameId}`,
-        content,
-        sha,
-        branch: GITHUB_BRANCH_GAMES,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(`Failed to update game: ${error.message}`);
-    }
-    return await response.json();
+    const result = await getGameStore().write(
+      getGamePath(gameId),
+      JSON.stringify(gameState, null, 2),
+      { message: message || `feat: Update game ${gameId}`, sha }
+    );
+    publishGameUpdate(gameId, result.sha);
+    trackGameDeadline(gameId, gameState);
+    return result;
   } catch (error) {
-    console.error("Error updating game:", error);
+    if (!(error instanceof StoreConflictError)) {
+      console.error("Error updating game:", error);
+    }
     throw error;
   }
 }
+
+export type GameUpdate =
+  | { gameState: GameState; message: string }
+  | { error: string };
+
+/**
+ * Applies an update to the latest saved game state using compare-and-swap.
+ *
+ * If the game was changed by someone else between the read and the write (or
+ * since `expectedSha` was seen by the caller) the game is reloaded and the
+ * update is run again against the new state, so it can re-validate. Updates
+ * are never merged: they either apply cleanly to the latest state or fail
+ * with a "state changed" error.
+ */
+export async function commitGameUpdate(
+  gameId: string,
+  update: (gameState: GameState) => Promise<GameUpdate> | GameUpdate,
+  expectedSha?: string
+): Promise<{ gameState: GameState; sha: string } | { error: string }> {
+  let stateChanged = false;
+  for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+    const gameData = await getGame(gameId);
+    if (!gameData) return { error: "Game not found." };
+    stateChanged ||= !!expectedSha && gameData.sha !== expectedSha;
+
+    const result = await update(gameData.gameState);
+    if ("error" in result) {
+      return {
+        error: stateChanged
+          ? `${GAME_STATE_CHANGED_ERROR} ${result.error}`
+          : result.error,
+      };
+    }
+
+    try {
+      const { sha } = await updateGame(
+        gameId,
+        result.gameState,
+        gameData.sha,
+        result.message
+      );
+      return { gameState: result.gameState, sha };
+    } catch (error) {
+      if (!(error instanceof StoreConflictError)) throw error;
+      stateChanged = true;
+      console.warn(
+        `Conflicting update to game ${gameId} (attempt ${attempt}), reloading.`
+      );
+    }
+  }
+  return { error: `${GAME_STATE_CHANGED_ERROR} Please try again.` };
+}
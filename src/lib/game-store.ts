@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Pluggable storage backends for game and dictionary files.
+ *
+ * The backend is chosen with the `GAME_STORE` environment variable:
+ * - `github`: files live on the games branch of the GitHub repository.
+ * - `local`: files live as plain JSON/text under `GAME_STORE_DIR`.
+ * When unset, GitHub is used if `GITHUB_TOKEN` is available, otherwise local.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { GITHUB_BRANCH_GAMES, GITHUB_USER_REPO } from "./constants";
+
+export const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+
+const DEFAULT_LOCAL_STORE_DIR = ".scrabblex-data";
+
+/** Path of a game's file in the store. */
+export const getGamePath = (gameId: string) => `${gameId}.json`;
+
+export interface StoredFile {
+  content: string;
+  sha: string;
+}
+
+export interface WriteOptions {
+  message: string;
+  /** Version the write is based on, required when overwriting a file. */
+  sha?: string;
+}
+
+/**
+ * Thrown when a write is based on a version that is no longer the latest.
+ */
+export class StoreConflictError extends Error {
+  constructor(filePath: string) {
+    super(`Failed to write ${filePath}: it was changed by another update`);
+    this.name = "StoreConflictError";
+  }
+}
+
+export interface GameStore {
+  readonly name: string;
+  read(filePath: string): Promise<StoredFile | null>;
+  /** Lists the paths of the files directly in a directory, "" being the top. */
+  list(directory: string): Promise<string[]>;
+  write(
+    filePath: string,
+    content: string,
+    options: WriteOptions
+  ): Promise<{ sha: string }>;
+}
+
+// Helper to encode content to Base64
+function toBase64(str: string): string {
+  return Buffer.from(str, "utf8").toString("base64");
+}
+
+// Helper to decode content from Base64
+function fromBase64(str: string): string {
+  return Buffer.from(str, "base64").toString("utf8");
+}
+
+export class GitHubGameStore implements GameStore {
+  readonly name = "github";
+  private readonly apiUrl: string;
+  private readonly headers: Record<string, string>;
+
+  constructor(
+    token: string,
+    userRepo = GITHUB_USER_REPO,
+    private readonly branch = GITHUB_BRANCH_GAMES
+  ) {
+    this.apiUrl = `https://api.github.com/repos/${userRepo}/contents/`;
+    this.headers = {
+      Authorization: `token ${token}`,
+      Accept: "application/vnd.github.v3+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+  }
+
+  async read(filePath: string): Promise<StoredFile | null> {
+    const response = await fetch(
+      `${this.apiUrl}${filePath}?ref=${this.branch}`,
+      {
+        headers: this.headers,
+        cache: "no-store",
+      }
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to read ${filePath}: ${response.statusText}`
+      );
+    }
+
+    const data = await response.json();
+    return { content: fromBase64(data.content), sha: data.sha };
+  }
+
+  async list(directory: string): Promise<string[]> {
+    const response = await fetch(
+      `${this.apiUrl}${directory}?ref=${this.branch}`,
+      {
+        headers: this.headers,
+        cache: "no-store",
+      }
+    );
+
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to list ${directory || "games"}: ${response.statusText}`
+      );
+    }
+
+    const data: { type: string; path: string }[] = await response.json();
+    return data.filter((entry) => entry.type === "file").map((entry) => entry.path);
+  }
+
+  async write(
+    filePath: string,
+    content: string,
+    { message, sha }: WriteOptions
+  ): Promise<{ sha: string }> {
+    const response = await fetch(`${this.apiUrl}${filePath}`, {
+      method: "PUT",
+      headers: { ...this.headers, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        message,
+        content: toBase64(content),
+        branch: this.branch,
+        ...(sha ? { sha } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      // 409 is a stale sha, 422 is a missing sha for a file that now exists.
+      if (
+        response.status === 409 ||
+        (response.status === 422 && /sha/i.test(error.message))
+      ) {
+        throw new StoreConflictError(filePath);
+      }
+      throw new Error(`Failed to write ${filePath}: ${error.message}`);
+    }
+
+    const data = await response.json();
+    return { sha: data.content.sha };
+  }
+}
+
+export class LocalGameStore implements GameStore {
+  readonly name = "local";
+  private readonly rootDir: string;
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(rootDir = DEFAULT_LOCAL_STORE_DIR) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  private resolve(filePath: string): string {
+    const resolved = path.resolve(this.rootDir, filePath);
+    if (!resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid store path: ${filePath}`);
+    }
+    return resolved;
+  }
+
+  private static hash(content: string): string {
+    return createHash("sha1").update(content, "utf8").digest("hex");
+  }
+
+  /** Serialises writes to the same file so the sha check and write are atomic. */
+  private async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => {}).then(fn);
+    this.locks.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) this.locks.delete(key);
+    }
+  }
+
+  async read(filePath: string): Promise<StoredFile | null> {
+    try {
+      const content = await fs.readFile(this.resolve(filePath), "utf8");
+      return { content, sha: LocalGameStore.hash(content) };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(directory: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(
+        directory ? this.resolve(directory) : this.rootDir,
+        { withFileTypes: true }
+      );
+      return entries
+        .filter((entry) => entry.isFile() && !entry.name.endsWith(".tmp"))
+        .map((entry) => path.posix.join(directory, entry.name));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async write(
+    filePath: string,
+    content: string,
+    { sha }: WriteOptions
+  ): Promise<{ sha: string }> {
+    const fullPath = this.resolve(filePath);
+    return this.withLock(fullPath, async () => {
+      const existing = await this.read(filePath);
+      if (existing && existing.sha !== sha) {
+        throw new StoreConflictError(filePath);
+      }
+
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      // Write to a temporary file first so readers never see partial content.
+      const tempPath = `${fullPath}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(tempPath, content, "utf8");
+      await fs.rename(tempPath, fullPath);
+      return { sha: LocalGameStore.hash(content) };
+    });
+  }
+}
+
+let store: GameStore | null = null;
+
+export function getGameStore(): GameStore {
+  if (store) return store;
+
+  const backend = process.env.GAME_STORE || (GITHUB_TOKEN ? "github" : "local");
+  if (backend === "github") {
+    if (!GITHUB_TOKEN) {
+      throw new Error("GAME_STORE is github but GITHUB_TOKEN is not set.");
+    }
+    store = new GitHubGameStore(GITHUB_TOKEN);
+  } else if (backend === "local") {
+    store = new LocalGameStore(process.env.GAME_STORE_DIR);
+    console.warn(
+      `Using local game store at ${path.resolve(
+        process.env.GAME_STORE_DIR || DEFAULT_LOCAL_STORE_DIR
+      )}.`
+    );
+  } else {
+    throw new Error(`Unknown GAME_STORE backend: ${backend}`);
+  }
+  return store;
+}
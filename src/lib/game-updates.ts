@@ -0,0 +1,79 @@
+/**
+ * @fileoverview In-process publish/subscribe for game updates.
+ *
+ * Saves made by this server are published straight away. While a game has
+ * subscribers its stored version is also checked on an interval, so updates
+ * saved by other server instances still reach every connected player with a
+ * single store read per game instead of one per player.
+ */
+import { getGamePath, getGameStore } from "./game-store";
+
+const GAME_UPDATE_CHECK_INTERVAL = 15000;
+
+export interface GameUpdatedEvent {
+  gameId: string;
+  /** The version of the game state that was saved. */
+  sha: string;
+}
+
+type GameUpdateListener = (event: GameUpdatedEvent) => void;
+
+interface GameChannel {
+  listeners: Set<GameUpdateListener>;
+  sha?: string;
+  timer?: ReturnType<typeof setInterval>;
+}
+
+// Kept on globalThis so channels survive module reloads in development.
+const globalForUpdates = globalThis as typeof globalThis & {
+  scrabblexGameChannels?: Map<string, GameChannel>;
+};
+const channels: Map<string, GameChannel> =
+  (globalForUpdates.scrabblexGameChannels ??= new Map());
+
+export function publishGameUpdate(gameId: string, sha: string) {
+  const channel = channels.get(gameId);
+  if (!channel || channel.sha === sha) return;
+  channel.sha = sha;
+  channel.listeners.forEach((listener) => listener({ gameId, sha }));
+}
+
+const checkForUpdate = async (gameId: string) => {
+  try {
+    const data = await getGameStore().read(getGamePath(gameId));
+    if (data) publishGameUpdate(gameId, data.sha);
+  } catch (error) {
+    console.error(`Failed to check game ${gameId} for updates:`, error);
+  }
+};
+
+/**
+ * Calls `listener` whenever a new version of the game is saved, starting with
+ * the current version. Returns a function that removes the listener.
+ */
+export function subscribeToGameUpdates(
+  gameId: string,
+  listener: GameUpdateListener
+): () => void {
+  let channel = channels.get(gameId);
+  if (!channel) {
+    channel = { listeners: new Set() };
+    channel.timer = setInterval(
+      () => checkForUpdate(gameId),
+      GAME_UPDATE_CHECK_INTERVAL
+    );
+    channels.set(gameId, channel);
+    checkForUpdate(gameId);
+  } else if (channel.sha) {
+    listener({ gameId, sha: channel.sha });
+  }
+  channel.listeners.add(listener);
+
+  return () => {
+    channel.listeners.delete(listener);
+    if (channel.listeners.size === 0 && channels.get(gameId) === channel) {
+      clearInterval(channel.timer);
+      channels.delete(gameId);
+    }
+  };
+}
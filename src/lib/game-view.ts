@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Per-player views of a game, the only form of the game state
+ * sent to browsers.
+ *
+ * A view leaves out the player codes, the other players' racks and the order
+ * of the tile bag, along with the event log and random seed they could be
+ * worked out from. Tiles a player can't see are only given as counts.
+ */
+import type {
+  GameEvent,
+  GameState,
+  GameView,
+  Player,
+  PlayerView,
+  Tile,
+  UnseenTileCount,
+} from "@/types";
+import { getGameRules } from "./game-rules";
+import { getLanguage } from "./languages";
+
+const BLANK = " ";
+
+const toPlayerView = (
+  { code: _code, rack, ...player }: Player,
+  showRack: boolean
+): PlayerView => ({
+  ...player,
+  rack: showRack ? rack : [],
+  rackSize: rack.length,
+});
+
+/** Counts tiles by letter in alphabetical order, with blanks last. */
+const countUnseenTiles = (
+  tiles: Tile[],
+  alphabet: string[]
+): UnseenTileCount[] => {
+  const counts = new Map<string, UnseenTileCount>();
+  tiles.forEach(({ letter, points }) => {
+    const count = counts.get(letter);
+    if (count) count.count++;
+    else counts.set(letter, { letter, points, count: 1 });
+  });
+  return Array.from(counts.values()).sort((a, b) => {
+    if (a.letter === BLANK) return 1;
+    if (b.letter === BLANK) return -1;
+    return alphabet.indexOf(a.letter) - alphabet.indexOf(b.letter);
+  });
+};
+
+/**
+ * Creates the view of a game for a player, or for a spectator if `viewerId`
+ * isn't one of the players.
+ */
+export function createGameView(
+  gameState: GameState,
+  viewerId?: string | null
+): GameView {
+  const {
+    players,
+    tileBag,
+    seed: _seed,
+    rngState: _rngState,
+    events: _events,
+    ...publicState
+  } = gameState;
+  const viewer = players.find((p) => p.id === viewerId);
+  const isOver = gameState.gamePhase === "ended";
+  const hiddenRacks = players
+    .filter((p) => !isOver && p !== viewer)
+    .flatMap((p) => p.rack);
+
+  return {
+    ...publicState,
+    players: players.map((p) => toPlayerView(p, isOver || p === viewer)),
+    viewerId: viewer?.id,
+    tileBagCount: tileBag.length,
+    unseenTiles: countUnseenTiles(
+      [...tileBag, ...hiddenRacks],
+      getLanguage(getGameRules(gameState).language).alphabet
+    ),
+  };
+}
+
+/**
+ * Removes the player codes from a finished game's event log, for sharing it
+ * outside the server. Everything else in it is shown once the game ends.
+ */
+export function createPublicEventLog(gameState: GameState): GameEvent[] {
+  if (gameState.gamePhase !== "ended") {
+    throw new Error("The event log is only shared once the game has ended.");
+  }
+  return (gameState.events ?? []).map((event) => {
+    if (event.type === "playerJoined") {
+      return { ...event, player: { ...event.player, code: "" } };
+    }
+    if (event.type === "stateImported") {
+      return { ...event, players: event.players.map((p) => ({ ...p, code: "" })) };
+    }
+    return event;
+  });
+}
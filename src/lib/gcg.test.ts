@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { replayGameEvents } from "./game-events";
+import { exportGcg, GcgError, GcgGame, getGcgRules, importGcgGame, parseGcg, parseTypedPlay } from "./gcg";
+
+const timestamp = "2025-01-01T00:00:00.000Z";
+
+const GAME = [
+  "#player1 Ann Ann Smith",
+  "#player2 Bob Bob Jones",
+  "#title Test game",
+  ">Ann: AEINRST 8D STAINER +66 66",
+  ">Bob: AEEIOUQ -EIOU +0 0",
+  ">Ann: ADEGLO? E5 aGO.D +12 78",
+  ">Bob: AEQ?RTY - +0 0",
+].join("\n");
+
+/** Imports a game into a new one, with its players as they are numbered. */
+const importGame = (text: string) => {
+  const gcg = parseGcg(text);
+  const gameState = replayGameEvents([
+    { type: "gameCreated", timestamp, gameId: "TEST", seed: 1, rules: getGcgRules(gcg) },
+  ]);
+  const players = gcg.players.map((p, i) => ({ id: `p${i}`, name: p.name, code: "" }));
+  return importGcgGame(gameState, gcg, players, timestamp).gameState;
+};
+
+/** What each move does, by player number, without the rack it was made from. */
+const describeMoves = ({ players, moves }: GcgGame) =>
+  moves.map((move) =>
+    [
+      players.findIndex((p) => p.nickname === move.nickname) + 1,
+      move.type,
+      ...(move.type === "play" ? [move.x, move.y, move.direction] : []),
+      move.score,
+      move.total,
+    ].join(" ")
+  );
+
+describe("parseGcg", () => {
+  it("reads the players, title and moves", () => {
+    const gcg = parseGcg(GAME);
+    assert.deepEqual(gcg.players, [
+      { nickname: "Ann", name: "Ann Smith" },
+      { nickname: "Bob", name: "Bob Jones" },
+    ]);
+    assert.equal(gcg.title, "Test game");
+    assert.deepEqual(describeMoves(gcg), [
+      "1 play 7 3 horizontal 66 66",
+      "2 swap 0 0",
+      "1 play 4 4 vertical 12 78",
+      "2 pass 0 0",
+    ]);
+    const [, swap, play] = gcg.moves;
+    assert.deepEqual(swap.type === "swap" && swap.tiles, ["E", "I", "O", "U"]);
+    assert.deepEqual(
+      play.type === "play" && play.word.map((l) => [l.letter, l.isBlank, l.isPlayedThrough]),
+      [
+        ["A", true, false],
+        ["G", false, false],
+        ["O", false, false],
+        ["", false, true],
+        ["D", false, false],
+      ]
+    );
+  });
+
+  it("says which line can't be read", () => {
+    assert.throws(() => parseGcg("#player1 Ann\n>Ann: AEINRST STAINER +66 66"), (error) => {
+      return error instanceof GcgError && /^Line 2:/.test(error.message);
+    });
+  });
+});
+
+describe("parseTypedPlay", () => {
+  it("plays across with a letter first and down with a number first", () => {
+    const across = parseTypedPlay("H8 cAT");
+    assert.deepEqual([across.x, across.y, across.direction], [7, 7, "horizontal"]);
+    assert.equal(across.word[0].isBlank, true);
+
+    const down = parseTypedPlay("8H C.T");
+    assert.deepEqual([down.x, down.y, down.direction], [7, 7, "vertical"]);
+    assert.equal(down.word[1].isPlayedThrough, true);
+  });
+
+  it("needs where the word starts and the word", () => {
+    assert.throws(() => parseTypedPlay("CAT"), GcgError);
+    assert.throws(() => parseTypedPlay("H8"), GcgError);
+  });
+});
+
+describe("importGcgGame", () => {
+  it("plays the file's moves with the file's scores", () => {
+    const gameState = importGame(GAME);
+    assert.deepEqual(gameState.players.map((p) => p.score), [78, 0]);
+    assert.equal(gameState.board[7][3].tile?.letter, "S");
+    assert.equal(gameState.board[4][4].tile?.letter, "A");
+    assert.equal(gameState.board[4][4].tile?.points, 0);
+  });
+
+  it("exports the moves it imported", () => {
+    const gameState = importGame(GAME);
+    const exported = parseGcg(exportGcg(gameState));
+    assert.deepEqual(exported.players.map((p) => p.name), ["Ann Smith", "Bob Jones"]);
+    assert.deepEqual(describeMoves(exported), describeMoves(parseGcg(GAME)));
+  });
+
+  it("rejects racks the bag doesn't have the tiles for", () => {
+    const twoQs = GAME.replace(">Ann: ADEGLO? E5", ">Ann: ADEGLQ? E5");
+    assert.throws(() => importGame(twoQs), /^GcgError: Line 6: There are no Q tiles left to draw\.$/);
+  });
+});
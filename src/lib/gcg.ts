@@ -0,0 +1,743 @@
+/**
+ * @fileoverview Export and import of games in GCG, the standard notation for
+ * recorded Scrabble games, which other Scrabble tools read.
+ *
+ * Each turn is a line such as ">Ann: AEINRST 8H STAINER +66 66": the player,
+ * their rack, where the word starts, the word, its score and the player's
+ * total. A number first means the word runs across, a letter first that it
+ * runs down. Blanks are in lower case, or "?" on a rack, letters already on
+ * the board are ".", and tiles with more than one letter, such as the Spanish
+ * CH, are in brackets.
+ *
+ * Here a failed challenge costs the challenger points, which is written as a
+ * "(challenge)" line of theirs with the points lost. Other tools give the
+ * points to the player challenged instead, so such a bonus is imported as a
+ * penalty of the same size for the challenger, which keeps the spread.
+ *
+ * Imported games are rebuilt from events, as if they had been played here, so
+ * they can be replayed, analysed or played on. Tiles that nobody saw drawn
+ * are chosen from the bag so that the tiles played later are still there.
+ */
+import type {
+  Board,
+  GameEndReason,
+  GameEvent,
+  GameRules,
+  GameState,
+  LanguageCode,
+  PlacedTile,
+  PlayedWord,
+  Player,
+  ScoreAdjustment,
+  Tile,
+} from "@/types";
+import { appendGameEvents, replayGameEvents } from "./game-events";
+import { createInitialBoard } from "./game-data";
+import { DEFAULT_GAME_RULES, getGameRules } from "./game-rules";
+import type { MoveDirection } from "./move-generator";
+import { calculateMoveScore } from "./scoring";
+
+const BLANK = " ";
+const BLANK_ON_RACK = "?";
+const PLAYED_THROUGH = ".";
+
+export class GcgError extends Error {
+  constructor(message: string, lineNumber?: number) {
+    super(lineNumber ? `Line ${lineNumber}: ${message}` : message);
+    this.name = "GcgError";
+  }
+}
+
+export interface GcgPlayer {
+  nickname: string;
+  name: string;
+}
+
+/** A letter of a played word. */
+export interface GcgLetter {
+  /** Empty for a letter already on the board written as ".". */
+  letter: string;
+  isBlank: boolean;
+  isPlayedThrough: boolean;
+}
+
+interface GcgLine {
+  nickname: string;
+  /** The tiles on the player's rack, a blank as " ", or null if not given. */
+  rack: string[] | null;
+  score: number;
+  /** The player's score after the line. */
+  total: number;
+  lineNumber: number;
+}
+
+export type GcgMove = GcgLine &
+  (
+    | {
+        type: "play";
+        x: number;
+        y: number;
+        direction: MoveDirection;
+        word: GcgLetter[];
+      }
+    /** The tiles swapped, or just how many if they are secret. */
+    | { type: "swap"; tiles: string[] | number }
+    | { type: "pass" }
+    /** The player's last play was challenged off the board. */
+    | { type: "withdrawn" }
+    /** A failed challenge, a bonus for the player challenged or a penalty for the challenger. */
+    | { type: "challenge" }
+    /** The tiles left on the other racks, gained by the player who went out. */
+    | { type: "rackBonus"; tiles: string[] }
+    /** The tiles left on the player's own rack, lost at the end. */
+    | { type: "rackPenalty"; tiles: string[] }
+    | { type: "time" }
+  );
+
+export interface GcgGame {
+  /** In the order they are numbered. */
+  players: GcgPlayer[];
+  title?: string;
+  moves: GcgMove[];
+  /** Racks after the last move by nickname, from `#rack1` and so on. */
+  finalRacks: Record<string, string[]>;
+}
+
+const POSITION_NUMBER_FIRST = /^(\d+)([A-Z])$/i;
+const POSITION_LETTER_FIRST = /^([A-Z])(\d+)$/i;
+const SCORE = /^[+-]\d+$/;
+
+const toColumn = (y: number) => String.fromCharCode(65 + y);
+const fromColumn = (column: string) => column.toUpperCase().charCodeAt(0) - 65;
+
+const formatLetter = (letter: string, isBlank = false) => {
+  const text = letter.length > 1 ? `[${letter}]` : letter;
+  return isBlank ? text.toLowerCase() : text;
+};
+
+const formatRack = (tiles: Pick<Tile, "letter">[]) =>
+  tiles
+    .map((t) => (t.letter === BLANK ? BLANK_ON_RACK : formatLetter(t.letter)))
+    .join("");
+
+const formatScore = (score: number) => `${score >= 0 ? "+" : ""}${score}`;
+
+/** Nicknames can't have spaces, or the colon that ends them. */
+const toNickname = (name: string) => name.trim().replace(/[\s:]+/g, "_") || "Player";
+
+/**
+ * Writes a game in GCG. Racks are only written once the game is over, as
+ * until then the other players' racks are secret, so plays show just the
+ * tiles played and swaps how many tiles were swapped.
+ */
+export function exportGcg(
+  gameState: GameState,
+  { revealRacks = gameState.gamePhase === "ended" } = {}
+): string {
+  const rules = getGameRules(gameState);
+  const events = gameState.events ?? [];
+  let state = replayGameEvents(events.slice(0, 1));
+
+  // Players who resigned from bigger games are only in the history.
+  const names = new Map<string, string>();
+  gameState.history.forEach((h) => names.set(h.playerId, h.playerName));
+  gameState.players.forEach((p) => names.set(p.id, p.name));
+  const playerIds = Array.from(
+    new Set([...(gameState.turnOrder ?? []), ...names.keys()])
+  );
+  // Players with the same nickname are numbered to tell them apart.
+  const nicknames = new Map<string, string>();
+  playerIds.forEach((id, i) => {
+    const nickname = toNickname(names.get(id) ?? "");
+    const isTaken = Array.from(nicknames.values()).includes(nickname);
+    nicknames.set(id, isTaken ? `${nickname}_${i + 1}` : nickname);
+  });
+
+  const lines = [
+    "#character-encoding UTF-8",
+    ...playerIds.map((id, i) => `#player${i + 1} ${nicknames.get(id)} ${names.get(id)}`),
+    ...(gameState.crosswordTitle ? [`#title ${gameState.crosswordTitle}`] : []),
+    `#id scrabblex ${gameState.gameId}`,
+  ];
+
+  const board = createInitialBoard(rules);
+  const totals = new Map<string, number>();
+  const addLine = (playerId: string, rack: string | null, move: string, score: number) => {
+    const total = (totals.get(playerId) ?? 0) + score;
+    totals.set(playerId, total);
+    const tokens = [rack, move, formatScore(score), total].filter((t) => t !== null);
+    lines.push(`>${nicknames.get(playerId)}: ${tokens.join(" ")}`);
+  };
+
+  /**
+   * Writes a history entry, from the state before it and the rack the player
+   * had then, or null if that isn't known. `swapped` are the tiles swapped.
+   */
+  const writeEntry = (
+    entry: PlayedWord,
+    before: GameState,
+    rack: Tile[] | null,
+    swapped: Tile[] = []
+  ) => {
+    const rackText = rack && revealRacks ? formatRack(rack) : null;
+    if (entry.adjustment === "rack") {
+      if (rack?.length) {
+        addLine(entry.playerId, formatRack(rack), `(${formatRack(rack)})`, entry.score);
+      } else {
+        const otherRacks = before.players
+          .filter((p) => p.id !== entry.playerId)
+          .flatMap((p) => p.rack);
+        addLine(entry.playerId, null, `(${formatRack(otherRacks)})`, entry.score);
+      }
+    } else if (entry.adjustment === "overtime") {
+      addLine(entry.playerId, rackText, "(time)", entry.score);
+    } else if (entry.isChallenge) {
+      const play = before.pendingPlay && before.history[before.pendingPlay.historyIndex];
+      if (entry.invalidWords?.length && play) {
+        play.tiles.forEach(({ x, y }) => (board[x][y].tile = null));
+        // The tiles go back on the rack the player had before the play.
+        const challengedRack = state.players.find((p) => p.id === play.playerId)?.rack;
+        addLine(
+          play.playerId,
+          challengedRack && revealRacks ? formatRack(challengedRack) : null,
+          "--",
+          -play.score
+        );
+      } else if (entry.score !== 0) {
+        addLine(entry.playerId, rackText, "(challenge)", entry.score);
+      }
+    } else if (entry.isResign) {
+      lines.push(`#note ${entry.playerName} resigned`);
+    } else if (entry.isTimeout && !entry.isPass) {
+      lines.push(`#note ${entry.playerName} lost on time`);
+    } else if (entry.isPass) {
+      addLine(entry.playerId, rackText, "-", 0);
+    } else if (entry.isSwap) {
+      const tiles = revealRacks && swapped.length ? formatRack(swapped) : `${swapped.length}`;
+      addLine(entry.playerId, rackText, `-${tiles}`, 0);
+    } else if (entry.tiles.length > 0) {
+      const isBlank = (tile: PlacedTile) => tile.originalLetter === BLANK;
+      const [mainWord] = calculateMoveScore(entry.tiles, board, rules).words;
+      const { x, y, direction } = mainWord ?? { ...entry.tiles[0], direction: "horizontal" };
+      const word = mainWord
+        ? mainWord.letters
+            .map((l) => {
+              if (!l.isNew) return PLAYED_THROUGH;
+              const tile = entry.tiles.find((t) => t.x === l.x && t.y === l.y)!;
+              return formatLetter(tile.letter, isBlank(tile));
+            })
+            .join("")
+        : formatLetter(entry.tiles[0].letter, isBlank(entry.tiles[0]));
+      const position =
+        direction === "horizontal" ? `${x + 1}${toColumn(y)}` : `${toColumn(y)}${x + 1}`;
+      entry.tiles.forEach((tile) => (board[tile.x][tile.y].tile = tile));
+      const playedTiles = entry.tiles.map((t) => ({ letter: t.originalLetter ?? t.letter }));
+      addLine(entry.playerId, rackText ?? formatRack(playedTiles), `${position} ${word}`, entry.score);
+    }
+  };
+
+  // Games from before the event log start with their history.
+  state.history.forEach((entry) => writeEntry(entry, state, null));
+  events.slice(1).forEach((event, i) => {
+    const before = state;
+    state = appendGameEvents(state, [event]);
+    const previous = events[i];
+    // Swaps draw their new tiles first, which weren't on the rack yet.
+    const drawnForSwap =
+      event.type === "tilesSwapped" &&
+      previous.type === "tilesDrawn" &&
+      previous.playerId === event.playerId
+        ? previous.tileIds
+        : [];
+    state.history.slice(before.history.length).forEach((entry) => {
+      const rack = before.players
+        .find((p) => p.id === entry.playerId)
+        ?.rack.filter((t) => !drawnForSwap.includes(t.id));
+      const swapped =
+        event.type === "tilesSwapped"
+          ? (rack ?? []).filter((t) => event.tileIds.includes(t.id))
+          : [];
+      writeEntry(entry, before, rack ?? null, swapped);
+    });
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Reads the letters of a word, or of a rack with `isRack`. */
+function parseLetters(text: string, lineNumber: number, isRack = false): GcgLetter[] {
+  const chars = Array.from(text);
+  const letters: GcgLetter[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    let letter = chars[i];
+    if (letter === "[") {
+      const end = chars.indexOf("]", i);
+      if (end === -1) throw new GcgError(`"${text}" has a "[" without a "]".`, lineNumber);
+      letter = chars.slice(i + 1, end).join("");
+      i = end;
+    }
+    if (!isRack && letter === PLAYED_THROUGH) {
+      letters.push({ letter: "", isBlank: false, isPlayedThrough: true });
+    } else if (isRack && letter === BLANK_ON_RACK) {
+      letters.push({ letter: BLANK, isBlank: true, isPlayedThrough: false });
+    } else if (/^\p{L}+$/u.test(letter)) {
+      const upperCase = letter.toUpperCase();
+      letters.push({ letter: upperCase, isBlank: !isRack && letter !== upperCase, isPlayedThrough: false });
+    } else {
+      throw new GcgError(`"${text}" has a "${letter}", which isn't a tile.`, lineNumber);
+    }
+  }
+  return letters;
+}
+
+const parseRack = (text: string, lineNumber: number) =>
+  parseLetters(text, lineNumber, true).map((l) => l.letter);
+
+/**
+ * Reads where a word starts. In GCG files "8H" runs across and "H8" down,
+ * and with `isLetterFirstAcross` it is the other way round.
+ */
+const parsePosition = (text: string, isLetterFirstAcross = false) => {
+  const numberFirst = POSITION_NUMBER_FIRST.exec(text);
+  if (numberFirst) {
+    return {
+      x: Number(numberFirst[1]) - 1,
+      y: fromColumn(numberFirst[2]),
+      direction: isLetterFirstAcross ? ("vertical" as const) : ("horizontal" as const),
+    };
+  }
+  const letterFirst = POSITION_LETTER_FIRST.exec(text);
+  if (letterFirst) {
+    return {
+      x: Number(letterFirst[2]) - 1,
+      y: fromColumn(letterFirst[1]),
+      direction: isLetterFirstAcross ? ("horizontal" as const) : ("vertical" as const),
+    };
+  }
+  return null;
+};
+
+/** Reads a line such as ">Ann: AEINRST 8H STAINER +66 66". */
+function parseMove(text: string, lineNumber: number): GcgMove {
+  const match = /^>([^:]+):(.*)$/.exec(text);
+  if (!match) throw new GcgError("A move needs a player, such as \">Ann:\".", lineNumber);
+  const tokens = match[2].trim().split(/\s+/).filter(Boolean);
+  const totalText = tokens.pop();
+  const scoreText = tokens.pop();
+  if (!scoreText || !SCORE.test(scoreText) || !/^-?\d+$/.test(totalText ?? "")) {
+    throw new GcgError("A move ends with its score, such as \"+66\", and the total.", lineNumber);
+  }
+  const line = {
+    nickname: match[1].trim(),
+    score: Number(scoreText),
+    total: Number(totalText),
+    lineNumber,
+  };
+  const readRack = (count: number) => {
+    if (tokens.length > count + 1) {
+      throw new GcgError(`"${tokens.join(" ")}" isn't a move.`, lineNumber);
+    }
+    return tokens.length > count ? parseRack(tokens[0], lineNumber) : null;
+  };
+
+  const position = tokens.length >= 2 ? parsePosition(tokens[tokens.length - 2]) : null;
+  if (position) {
+    const word = parseLetters(tokens[tokens.length - 1], lineNumber);
+    return { ...line, rack: readRack(2), type: "play", ...position, word };
+  }
+  const move = tokens[tokens.length - 1];
+  if (!move) throw new GcgError("The move is missing.", lineNumber);
+  const rack = readRack(1);
+  const inParentheses = /^\((.*)\)$/.exec(move)?.[1];
+  if (move === "-") return { ...line, rack, type: "pass" };
+  if (move === "--") return { ...line, rack, type: "withdrawn" };
+  if (/^-\d+$/.test(move)) return { ...line, rack, type: "swap", tiles: Number(move.slice(1)) };
+  if (move.startsWith("-")) {
+    return { ...line, rack, type: "swap", tiles: parseRack(move.slice(1), lineNumber) };
+  }
+  if (inParentheses === "challenge") return { ...line, rack, type: "challenge" };
+  if (inParentheses === "time") return { ...line, rack, type: "time" };
+  if (inParentheses !== undefined) {
+    const tiles = parseRack(inParentheses, lineNumber);
+    return { ...line, rack, type: line.score < 0 ? "rackPenalty" : "rackBonus", tiles };
+  }
+  throw new GcgError(`"${move}" isn't a move.`, lineNumber);
+}
+
+/** Where a play goes and its letters, as in "8H STAINER". */
+export type GcgPlay = Pick<Extract<GcgMove, { type: "play" }>, "x" | "y" | "direction" | "word">;
+
+/**
+ * Reads a play typed by a player, such as "H8 STAINER" across or "8H s.AINER"
+ * down. Players type a letter first for across, the other way round from
+ * GCG files.
+ */
+export function parseTypedPlay(text: string): GcgPlay {
+  const [positionText, wordText, ...rest] = text.trim().split(/\s+/);
+  const position = positionText ? parsePosition(positionText, true) : null;
+  if (!position) {
+    throw new GcgError("A play starts with where its word starts, such as \"H8\" across or \"8H\" down.");
+  }
+  if (!wordText || rest.length > 0) {
+    throw new GcgError("A play is where its word starts then the word, such as \"H8 STAINER\".");
+  }
+  return { ...position, word: parseLetters(wordText, 0) };
+}
+
+/**
+ * Takes the tiles for a play from a rack and places them, skipping the
+ * letters already on the board.
+ */
+export function placeGcgPlay(
+  play: GcgPlay,
+  board: Board,
+  rack: Tile[],
+  lineNumber?: number
+): PlacedTile[] {
+  const remaining = [...rack];
+  const [dx, dy] = play.direction === "horizontal" ? [0, 1] : [1, 0];
+  const tiles: PlacedTile[] = [];
+  play.word.forEach((l, i) => {
+    const [x, y] = [play.x + i * dx, play.y + i * dy];
+    const square = board[x]?.[y];
+    if (!square) throw new GcgError("The word doesn't fit on the board.", lineNumber);
+    if (square.tile && (l.isPlayedThrough || square.tile.letter === l.letter)) return;
+    if (square.tile || l.isPlayedThrough) {
+      throw new GcgError(`The word doesn't fit with the tiles at ${toColumn(y)}${x + 1}.`, lineNumber);
+    }
+    const index = remaining.findIndex((t) => t.letter === (l.isBlank ? BLANK : l.letter));
+    if (index === -1) {
+      const letter = l.isBlank ? "a blank" : formatLetter(l.letter);
+      throw new GcgError(`There is no ${letter} on the rack to play.`, lineNumber);
+    }
+    const [tile] = remaining.splice(index, 1);
+    tiles.push({ ...tile, x, y, letter: l.letter, ...(l.isBlank && { originalLetter: BLANK }) });
+  });
+  if (tiles.length === 0) throw new GcgError("The play has no new tiles.", lineNumber);
+  return tiles;
+}
+
+/**
+ * Reads a game in GCG. Players are declared with `#player1 Ann Ann Smith`,
+ * the nickname then the full name, though players who only appear in moves
+ * are added too. Other pragmas, such as notes, are skipped.
+ */
+export function parseGcg(text: string): GcgGame {
+  const players: GcgPlayer[] = [];
+  const racks: string[][] = [];
+  const moves: GcgMove[] = [];
+  let title: string | undefined;
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    const lineNumber = i + 1;
+    if (line.startsWith(">")) {
+      moves.push(parseMove(line, lineNumber));
+      return;
+    }
+    const [, pragma, value = ""] = /^#(\w+)\s*(.*)$/.exec(line) ?? [];
+    const playerNumber = Number(/^player(\d+)$/.exec(pragma ?? "")?.[1]);
+    const rackNumber = Number(/^rack(\d+)$/.exec(pragma ?? "")?.[1]);
+    if (playerNumber > 0) {
+      const [nickname, ...name] = value.split(/\s+/);
+      if (!nickname) throw new GcgError("The player needs a nickname.", lineNumber);
+      players[playerNumber - 1] = { nickname, name: name.join(" ") || nickname };
+    } else if (rackNumber > 0) {
+      racks[rackNumber - 1] = parseRack(value, lineNumber);
+    } else if (pragma === "title" && value) {
+      title = value;
+    }
+  });
+
+  const finalRacks: Record<string, string[]> = {};
+  racks.forEach((rack, i) => {
+    if (players[i]) finalRacks[players[i].nickname] = rack;
+  });
+  const declared = players.filter(Boolean);
+  moves.forEach(({ nickname }) => {
+    if (!declared.some((p) => p.nickname === nickname)) {
+      declared.push({ nickname, name: nickname });
+    }
+  });
+  if (declared.length === 0) throw new GcgError("The game has no players.");
+  if (new Set(declared.map((p) => p.nickname)).size < declared.length) {
+    throw new GcgError("Every player needs a different nickname.");
+  }
+  return { players: declared, title, moves, finalRacks };
+}
+
+/** The standard rules, with single challenges if the game had challenges. */
+export function getGcgRules(gcg: GcgGame, language?: LanguageCode): GameRules {
+  const [penalty] = gcg.moves.flatMap((m) => (m.type === "challenge" ? [Math.abs(m.score)] : []));
+  const hasChallenges =
+    penalty !== undefined || gcg.moves.some((m) => m.type === "withdrawn");
+  return {
+    ...DEFAULT_GAME_RULES,
+    maxPlayers: Math.max(DEFAULT_GAME_RULES.maxPlayers, gcg.players.length),
+    ...(language && { language }),
+    ...(hasChallenges && { challengeMode: "single" as const, challengePenalty: penalty ?? 0 }),
+  };
+}
+
+const getPlayedLetters = (move: GcgMove) =>
+  move.type === "play"
+    ? move.word.filter((l) => !l.isPlayedThrough).map((l) => (l.isBlank ? BLANK : l.letter))
+    : [];
+
+/** The tiles a line shows were on the player's rack, or null if it doesn't. */
+const getRackLetters = (move: GcgMove): string[] | null => {
+  if (move.rack) return move.rack;
+  if (move.type === "play") return getPlayedLetters(move);
+  if (move.type === "swap" && Array.isArray(move.tiles)) return move.tiles;
+  if (move.type === "rackPenalty") return move.tiles;
+  return null;
+};
+
+/** The letters that aren't on a rack, each rack tile matching one letter. */
+const getMissingLetters = (rack: Pick<Tile, "letter">[], letters: string[]) => {
+  const left = rack.map((t) => t.letter);
+  return letters.filter((letter) => {
+    const index = left.indexOf(letter);
+    if (index !== -1) left.splice(index, 1);
+    return index === -1;
+  });
+};
+
+export interface GcgImport {
+  gameState: GameState;
+  /** How the game ended, if the file has the scores added up at the end. */
+  ending: { reason: GameEndReason; adjustments: ScoreAdjustment[] } | null;
+}
+
+/**
+ * Plays a GCG game into a new game from the lobby, with the players in the
+ * order they are numbered, who then take their turns as the file has them.
+ * Racks are drawn from the bag as the file shows them, and refilled after
+ * each move with the tiles the player's next rack has.
+ */
+export function importGcgGame(
+  gameState: GameState,
+  gcg: GcgGame,
+  players: Pick<Player, "id" | "name" | "code">[],
+  timestamp = new Date().toISOString()
+): GcgImport {
+  const { rackSize } = getGameRules(gameState);
+  const { moves } = gcg;
+  let state = gameState;
+  const emit = (...events: GameEvent[]) => {
+    state = appendGameEvents(state, events);
+  };
+  const getPlayerId = ({ nickname }: GcgMove) =>
+    players[gcg.players.findIndex((p) => p.nickname === nickname)].id;
+  const getRack = (playerId: string) => state.players.find((p) => p.id === playerId)!.rack;
+  const getName = (playerId: string) => state.players.find((p) => p.id === playerId)!.name;
+
+  const emitDraw = (playerId: string, tiles: Tile[]) => {
+    if (tiles.length > 0) {
+      emit({ type: "tilesDrawn", timestamp, playerId, tileIds: tiles.map((t) => t.id) });
+    }
+  };
+
+  /**
+   * Draws `count` tiles after move `index`: those of the player's next rack
+   * that aren't on `leave`, then those of their later plays that the other
+   * players don't need first, then tiles nobody needs, as far as the bag has
+   * them.
+   */
+  const drawForNextRack = (playerId: string, index: number, count: number, leave: Tile[]) => {
+    const nickname = gcg.players[players.findIndex((p) => p.id === playerId)].nickname;
+    const laterMoves = moves.slice(index + 1);
+    const getNeededLetters = (m: GcgMove) => (m.type === "rackPenalty" ? m.tiles : getPlayedLetters(m));
+    const bag = [...state.tileBag];
+    const drawn: Tile[] = [];
+    const countOf = (letters: string[], letter: string) =>
+      letters.filter((l) => l === letter).length;
+    const draw = (letter: string) => {
+      const index = bag.findIndex((t) => t.letter === letter);
+      if (index !== -1 && drawn.length < count) drawn.push(...bag.splice(index, 1));
+    };
+
+    const nextMove = laterMoves.find((m) => m.nickname === nickname && getRackLetters(m));
+    const nextRack = (nextMove && getRackLetters(nextMove)) ?? gcg.finalRacks[nickname] ?? [];
+    getMissingLetters(leave, nextRack).forEach(draw);
+
+    const otherRacks = state.players
+      .filter((p) => p.id !== playerId)
+      .flatMap((p) => p.rack.map((t) => t.letter));
+    const othersNeed: string[] = [];
+    const rack = [...leave, ...drawn].map((t) => t.letter);
+    [...laterMoves, { nickname, letters: gcg.finalRacks[nickname] ?? [] }].forEach((m) => {
+      const letters = "letters" in m ? m.letters : getNeededLetters(m);
+      if (m.nickname !== nickname) {
+        othersNeed.push(...letters);
+        return;
+      }
+      letters.forEach((letter) => {
+        const index = rack.indexOf(letter);
+        if (index !== -1) {
+          rack.splice(index, 1);
+          return;
+        }
+        const othersNeedFirst = countOf(othersNeed, letter) - countOf(otherRacks, letter);
+        const inBag = countOf(bag.map((t) => t.letter), letter);
+        if (inBag > Math.max(0, othersNeedFirst)) draw(letter);
+      });
+    });
+
+    // Tiles played later have to be left in the bag, or on the rack they are
+    // already on.
+    const needed = getMissingLetters(
+      [...state.players.flatMap((p) => p.rack), ...drawn],
+      [
+        ...laterMoves.flatMap((m) => (m.type === "rackBonus" ? m.tiles : getNeededLetters(m))),
+        ...Object.values(gcg.finalRacks).flat(),
+      ]
+    );
+    const spare = bag.filter((tile) => {
+      const index = needed.indexOf(tile.letter);
+      if (index !== -1) needed.splice(index, 1);
+      return index === -1;
+    });
+    const rest = [...spare, ...bag.filter((t) => !spare.includes(t))];
+    drawn.push(...rest.slice(0, Math.max(0, count - drawn.length)));
+    emitDraw(playerId, drawn);
+  };
+
+  /** Makes sure a player has the tiles a line shows, drawing any they don't have. */
+  const requireTiles = (playerId: string, letters: string[], lineNumber: number) => {
+    const missing = getMissingLetters(getRack(playerId), letters);
+    if (missing.length === 0) return;
+    const bag = [...state.tileBag];
+    const drawn = missing.map((letter) => {
+      const index = bag.findIndex((t) => t.letter === letter);
+      if (index === -1) {
+        throw new GcgError(`There are no ${formatRack([{ letter }])} tiles left to draw.`, lineNumber);
+      }
+      return bag.splice(index, 1)[0];
+    });
+    if (getRack(playerId).length + drawn.length > rackSize) {
+      throw new GcgError(
+        `${getName(playerId)} can't have ${formatRack(letters.map((letter) => ({ letter })))} on their rack.`,
+        lineNumber
+      );
+    }
+    emitDraw(playerId, drawn);
+  };
+
+  const playTiles = (move: Extract<GcgMove, { type: "play" }>, playerId: string) => {
+    const tiles = placeGcgPlay(move, state.board, getRack(playerId), move.lineNumber);
+    const scoreBreakdown = calculateMoveScore(tiles, state.board, getGameRules(state));
+    const words = scoreBreakdown.words.map((w) => w.word);
+    emit({
+      type: "tilesPlayed",
+      timestamp,
+      playerId,
+      word: words[0] ?? tiles[0].letter,
+      tiles,
+      score: move.score,
+      words,
+      // Scores from elsewhere are kept, with how they were reached if it agrees.
+      ...(scoreBreakdown.score === move.score && { scoreBreakdown }),
+    });
+  };
+
+  emit(...players.map((player) => ({ type: "playerJoined" as const, timestamp, player })));
+  // Whoever moves first goes first.
+  const ids = players.map((p) => p.id);
+  const first = moves.length > 0 ? ids.indexOf(getPlayerId(moves[0])) : 0;
+  const turnOrder = [...ids.slice(first), ...ids.slice(0, first)];
+  emit({ type: "gameStarted", timestamp, turnOrder, turnOrderDraws: {} });
+  turnOrder.forEach((playerId) => drawForNextRack(playerId, -1, rackSize, []));
+
+  const adjustments: ScoreAdjustment[] = [];
+  moves.forEach((move, index) => {
+    const playerId = getPlayerId(move);
+    // Challenges show the rack the play was made from, which isn't needed.
+    const isChallenge = move.type === "withdrawn" || move.type === "challenge";
+    const rackLetters = isChallenge ? null : getRackLetters(move);
+    if (rackLetters) requireTiles(playerId, rackLetters, move.lineNumber);
+
+    if (move.type === "rackBonus" || move.type === "rackPenalty" || move.type === "time") {
+      const otherIds = ids.filter((id) => id !== playerId);
+      // The tiles gained are the other player's, if there is only one.
+      if (move.type === "rackBonus" && otherIds.length === 1) {
+        requireTiles(otherIds[0], move.tiles, move.lineNumber);
+      }
+      adjustments.push({
+        playerId,
+        type: move.type === "time" ? "overtime" : "rack",
+        points: move.score,
+      });
+      return;
+    }
+    if (adjustments.length > 0) {
+      throw new GcgError("There is a move after the game ended.", move.lineNumber);
+    }
+
+    const { pendingPlay } = state;
+    if (move.type === "withdrawn" || move.type === "challenge") {
+      const isChallenger = pendingPlay?.playerId !== playerId;
+      if (!pendingPlay || (move.type === "withdrawn" && isChallenger)) {
+        throw new GcgError(`There is no play of ${getName(playerId)}'s to challenge.`, move.lineNumber);
+      }
+      emit({
+        type: "playChallenged",
+        timestamp,
+        playerId: isChallenger ? playerId : turnOrder[state.currentTurn ?? 0],
+        invalidWords: move.type === "withdrawn" ? pendingPlay.words : [],
+      });
+      return;
+    }
+
+    const currentPlayerId = state.turnOrder?.[state.currentTurn ?? 0];
+    if (currentPlayerId !== playerId) {
+      throw new GcgError(`It is ${getName(currentPlayerId!)}'s turn, not ${getName(playerId)}'s.`, move.lineNumber);
+    }
+    if (move.type === "play") {
+      playTiles(move, playerId);
+      // Tiles drawn after a play that is withdrawn would only go back.
+      const isWithdrawn = moves[index + 1]?.type === "withdrawn";
+      if (!isWithdrawn) {
+        drawForNextRack(playerId, index, rackSize - getRack(playerId).length, getRack(playerId));
+      }
+    } else if (move.type === "swap") {
+      const rack = getRack(playerId);
+      const swapped: Tile[] = [];
+      if (Array.isArray(move.tiles)) {
+        move.tiles.forEach((letter) => {
+          const tile = rack.find((t) => t.letter === letter && !swapped.includes(t));
+          if (tile) swapped.push(tile);
+        });
+      } else {
+        swapped.push(...rack.slice(0, move.tiles));
+      }
+      if (swapped.length === 0 || swapped.length > state.tileBag.length) {
+        throw new GcgError(`${getName(playerId)} can't swap ${swapped.length} tiles.`, move.lineNumber);
+      }
+      // As in a game here, new tiles are drawn before the old ones go back.
+      const leave = rack.filter((t) => !swapped.includes(t));
+      drawForNextRack(playerId, index, swapped.length, leave);
+      emit({ type: "tilesSwapped", timestamp, playerId, tileIds: swapped.map((t) => t.id) });
+    } else {
+      emit({ type: "turnPassed", timestamp, playerId });
+    }
+  });
+
+  Object.entries(gcg.finalRacks).forEach(([nickname, rack]) => {
+    const index = gcg.players.findIndex((p) => p.nickname === nickname);
+    requireTiles(players[index].id, rack, 0);
+  });
+  if (adjustments.length === 0) return { gameState: state, ending: null };
+
+  // The last play can't be challenged once the game has been scored.
+  if (state.pendingPlay) {
+    emit({ type: "playAccepted", timestamp, playerId: turnOrder[state.currentTurn ?? 0] });
+  }
+  const isTilesOut =
+    adjustments.some((a) => a.type === "rack" && a.points > 0) ||
+    (state.tileBag.length === 0 && state.players.some((p) => p.rack.length === 0));
+  return {
+    gameState: state,
+    ending: { reason: isTilesOut ? "tilesOut" : "scorelessTurns", adjustments },
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview The languages a game can be played in, each with its own
+ * tiles and word list.
+ *
+ * Some languages have tiles with more than one letter, such as the Spanish
+ * CH, LL and RR. Words are split into tiles longest letter first, so in
+ * Spanish "CHICO" is always played with a CH tile, never with a C and an H.
+ */
+import type { LanguageCode } from "@/types";
+
+const BLANK = " ";
+
+export interface TileDistribution {
+  letter: string;
+  points: number;
+  count: number;
+}
+
+export interface Language {
+  code: LanguageCode;
+  name: string;
+  /** The letters of the tiles in alphabetical order, without the blank. */
+  alphabet: string[];
+  tiles: TileDistribution[];
+  /** Path of the word list in the /public directory, one word per line. */
+  wordListPath: string;
+}
+
+const tile = (letter: string, points: number, count: number): TileDistribution => ({
+  letter,
+  points,
+  count,
+});
+
+const defineLanguage = (
+  code: LanguageCode,
+  name: string,
+  wordListPath: string,
+  tiles: TileDistribution[]
+): Language => ({
+  code,
+  name,
+  alphabet: tiles.map((t) => t.letter).filter((letter) => letter !== BLANK),
+  tiles,
+  wordListPath,
+});
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export const LANGUAGES: Record<LanguageCode, Language> = {
+  en: defineLanguage("en", "English", "valid-words.txt", [
+    tile("A", 1, 9),
+    tile("B", 3, 2),
+    tile("C", 3, 2),
+    tile("D", 2, 4),
+    tile("E", 1, 12),
+    tile("F", 4, 2),
+    tile("G", 2, 3),
+    tile("H", 4, 2),
+    tile("I", 1, 9),
+    tile("J", 8, 1),
+    tile("K", 5, 1),
+    tile("L", 1, 4),
+    tile("M", 3, 2),
+    tile("N", 1, 6),
+    tile("O", 1, 8),
+    tile("P", 3, 2),
+    tile("Q", 10, 1),
+    tile("R", 1, 6),
+    tile("S", 1, 4),
+    tile("T", 1, 6),
+    tile("U", 1, 4),
+    tile("V", 4, 2),
+    tile("W", 4, 2),
+    tile("X", 8, 1),
+    tile("Y", 4, 2),
+    tile("Z", 10, 1),
+    tile(BLANK, 0, 2),
+  ]),
+  fr: defineLanguage("fr", "French", "words/fr.txt", [
+    tile("A", 1, 9),
+    tile("B", 3, 2),
+    tile("C", 3, 2),
+    tile("D", 2, 3),
+    tile("E", 1, 15),
+    tile("F", 4, 2),
+    tile("G", 2, 2),
+    tile("H", 4, 2),
+    tile("I", 1, 8),
+    tile("J", 8, 1),
+    tile("K", 10, 1),
+    tile("L", 1, 5),
+    tile("M", 2, 3),
+    tile("N", 1, 6),
+    tile("O", 1, 6),
+    tile("P", 3, 2),
+    tile("Q", 8, 1),
+    tile("R", 1, 6),
+    tile("S", 1, 6),
+    tile("T", 1, 6),
+    tile("U", 1, 6),
+    tile("V", 4, 2),
+    tile("W", 10, 1),
+    tile("X", 10, 1),
+    tile("Y", 10, 1),
+    tile("Z", 10, 1),
+    tile(BLANK, 0, 2),
+  ]),
+  es: defineLanguage("es", "Spanish", "words/es.txt", [
+    tile("A", 1, 12),
+    tile("B", 3, 2),
+    tile("C", 3, 4),
+    tile("CH", 5, 1),
+    tile("D", 2, 5),
+    tile("E", 1, 12),
+    tile("F", 4, 1),
+    tile("G", 2, 2),
+    tile("H", 4, 2),
+    tile("I", 1, 6),
+    tile("J", 8, 1),
+    tile("L", 1, 4),
+    tile("LL", 8, 1),
+    tile("M", 3, 2),
+    tile("N", 1, 5),
+    tile("Ñ", 8, 1),
+    tile("O", 1, 9),
+    tile("P", 3, 2),
+    tile("Q", 5, 1),
+    tile("R", 1, 5),
+    tile("RR", 8, 1),
+    tile("S", 1, 6),
+    tile("T", 1, 4),
+    tile("U", 1, 5),
+    tile("V", 4, 1),
+    tile("X", 8, 1),
+    tile("Y", 4, 1),
+    tile("Z", 10, 1),
+    tile(BLANK, 0, 2),
+  ]),
+  de: defineLanguage("de", "German", "words/de.txt", [
+    tile("A", 1, 5),
+    tile("Ä", 6, 1),
+    tile("B", 3, 2),
+    tile("C", 4, 2),
+    tile("D", 1, 4),
+    tile("E", 1, 15),
+    tile("F", 4, 2),
+    tile("G", 2, 3),
+    tile("H", 2, 4),
+    tile("I", 1, 6),
+    tile("J", 6, 1),
+    tile("K", 4, 2),
+    tile("L", 2, 3),
+    tile("M", 3, 4),
+    tile("N", 1, 9),
+    tile("O", 2, 3),
+    tile("Ö", 8, 1),
+    tile("P", 4, 1),
+    tile("Q", 10, 1),
+    tile("R", 1, 6),
+    tile("S", 1, 7),
+    tile("T", 1, 6),
+    tile("U", 1, 6),
+    tile("Ü", 6, 1),
+    tile("V", 6, 1),
+    tile("W", 3, 1),
+    tile("X", 8, 1),
+    tile("Y", 10, 1),
+    tile("Z", 3, 1),
+    tile(BLANK, 0, 2),
+  ]),
+};
+
+export const LANGUAGE_OPTIONS = Object.values(LANGUAGES);
+
+/** Returns a language, English for games saved before there were others. */
+export const getLanguage = (code: LanguageCode = DEFAULT_LANGUAGE): Language =>
+  LANGUAGES[code] ?? LANGUAGES[DEFAULT_LANGUAGE];
+
+/** Whether some of the language's tiles have more than one letter. */
+export const hasMultiLetterTiles = (language: Language) =>
+  language.alphabet.some((letter) => letter.length > 1);
+
+/**
+ * Puts a word from a word list in the form it is played in: upper case and
+ * without accents, apart from letters that have their own tiles, such as the
+ * Spanish Ñ.
+ */
+export function normalizeWord(word: string, language: Language): string {
+  const upperCaseWord = word.trim().toUpperCase();
+  // Most words have no accents, which is much quicker to check for.
+  if (!/[^\x00-\x7F]/.test(upperCaseWord)) return upperCaseWord;
+  return Array.from(upperCaseWord, (char) =>
+    language.alphabet.includes(char)
+      ? char
+      : char.normalize("NFD").replace(/\p{M}/gu, "")
+  ).join("");
+}
+
+const lettersLongestFirst = new Map<LanguageCode, string[]>();
+
+/**
+ * Splits a word into the letters of the tiles it is played with, or returns
+ * null if it can't be played with the language's tiles.
+ */
+export function splitIntoTiles(word: string, language: Language): string[] | null {
+  let letters = lettersLongestFirst.get(language.code);
+  if (!letters) {
+    letters = [...language.alphabet].sort((a, b) => b.length - a.length);
+    lettersLongestFirst.set(language.code, letters);
+  }
+  const tiles: string[] = [];
+  for (let i = 0; i < word.length; ) {
+    const letter = letters.find((l) => word.startsWith(l, i));
+    if (!letter) return null;
+    tiles.push(letter);
+    i += letter.length;
+  }
+  return tiles;
+}
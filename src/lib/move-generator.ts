@@ -0,0 +1,429 @@
+/**
+ * @fileoverview Move generation for the computer player and word suggestions.
+ *
+ * The word list is built once into a DAWG (a trie with shared suffixes), then
+ * every legal move is found with the Appel-Jacobson algorithm: words are grown
+ * through the DAWG from anchor squares next to existing tiles, and each empty
+ * square has a precomputed cross-check of the letters that form valid words
+ * across it.
+ */
+import type { Board, BoardSquare, GameRules, PlacedTile, Tile } from "@/types";
+import { DEFAULT_GAME_RULES } from "./game-rules";
+
+const BLANK = " ";
+const BLANK_OPTIONS = [false, true];
+
+export class DawgNode {
+  isWord = false;
+  readonly edges = new Map<string, DawgNode>();
+
+  constructor(readonly id: number) {}
+}
+
+export class Dawg {
+  private constructor(readonly root: DawgNode) {}
+
+  /**
+   * Builds a minimal DAWG with the incremental algorithm of Daciuk et al.,
+   * which shares suffixes while the words are added in sorted order.
+   *
+   * Each edge is a tile, so words are split into the letters of their tiles
+   * first. Words that can't be split are left out.
+   */
+  static fromWords(
+    words: Iterable<string>,
+    splitWord: (word: string) => string[] | null = (word) => Array.from(word)
+  ): Dawg {
+    let nextId = 0;
+    const root = new DawgNode(nextId++);
+    const register = new Map<string, DawgNode>();
+    const unchecked: { parent: DawgNode; letter: string; child: DawgNode }[] =
+      [];
+
+    const nodeKey = (node: DawgNode) =>
+      `${node.isWord ? 1 : 0}${Array.from(
+        node.edges,
+        ([letter, child]) => `${letter}${child.id}`
+      ).join(",")}`;
+
+    // Replaces nodes below `depth` with an equivalent registered node.
+    const minimize = (depth: number) => {
+      while (unchecked.length > depth) {
+        const { parent, letter, child } = unchecked.pop()!;
+        const key = nodeKey(child);
+        const existing = register.get(key);
+        if (existing) {
+          parent.edges.set(letter, existing);
+        } else {
+          register.set(key, child);
+        }
+      }
+    };
+
+    const compareWords = (a: string[], b: string[]) => {
+      for (let i = 0; i < a.length && i < b.length; i++) {
+        if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+      }
+      return a.length - b.length;
+    };
+    // Sorting the words first leaves little to reorder once they are split.
+    const sortedWords = Array.from(new Set(words))
+      .sort()
+      .map(splitWord)
+      .filter((word): word is string[] => !!word?.length)
+      .sort(compareWords);
+    let previousWord: string[] = [];
+    for (const word of sortedWords) {
+      let commonPrefix = 0;
+      while (
+        commonPrefix < word.length &&
+        word[commonPrefix] === previousWord[commonPrefix]
+      ) {
+        commonPrefix++;
+      }
+      minimize(commonPrefix);
+
+      let node = unchecked.length
+        ? unchecked[unchecked.length - 1].child
+        : root;
+      for (const letter of word.slice(commonPrefix)) {
+        const child = new DawgNode(nextId++);
+        node.edges.set(letter, child);
+        unchecked.push({ parent: node, letter, child });
+        node = child;
+      }
+      node.isWord = true;
+      previousWord = word;
+    }
+    minimize(0);
+    return new Dawg(root);
+  }
+
+  /**
+   * Follows the letters of tiles from a node, or returns null if no word has
+   * them. A string is followed one character at a time.
+   */
+  walk(letters: Iterable<string>, node: DawgNode = this.root): DawgNode | null {
+    let current: DawgNode | undefined = node;
+    for (const letter of letters) {
+      current = current.edges.get(letter);
+      if (!current) return null;
+    }
+    return current;
+  }
+
+  has(word: Iterable<string>): boolean {
+    return !!this.walk(word)?.isWord;
+  }
+}
+
+export type MoveDirection = "horizontal" | "vertical";
+
+export interface GeneratedMove {
+  word: string;
+  tiles: PlacedTile[];
+  score: number;
+  direction: MoveDirection;
+  /** Position of the first letter of the word. */
+  x: number;
+  y: number;
+}
+
+/**
+ * Moves already found on lines of a board, by the tiles on and across each
+ * line and the rack, so a line is only searched again once something near it
+ * changes. A cache is only for boards with the same premium squares, one word
+ * list and one set of rules.
+ */
+export type MoveCache = Map<string, GeneratedMove[]>;
+
+interface Placement {
+  pos: number;
+  letter: string;
+  isBlank: boolean;
+}
+
+/**
+ * Finds every legal move for a rack, including every letter a blank can take,
+ * sorted from the highest score to the lowest.
+ */
+export function generateMoves(
+  board: Board,
+  rack: Tile[],
+  dawg: Dawg,
+  rules: Pick<GameRules, "rackSize" | "bingoBonus"> = DEFAULT_GAME_RULES,
+  cache?: MoveCache
+): GeneratedMove[] {
+  const size = board.length;
+  const moves: GeneratedMove[] = [];
+  // One tile moves are found in both directions, so only keep them once.
+  const singleTileMoves = new Set<string>();
+
+  const rackCounts: Record<string, number> = {};
+  const letterPoints: Record<string, number> = {};
+  const rackTilesByLetter: Record<string, Tile[]> = {};
+  rack.forEach((tile) => {
+    rackCounts[tile.letter] = (rackCounts[tile.letter] ?? 0) + 1;
+    letterPoints[tile.letter] = tile.points;
+    (rackTilesByLetter[tile.letter] ??= []).push(tile);
+  });
+  const isBoardEmpty = board.every((row) => row.every((square) => !square.tile));
+  const hasCenter = board.some((row) => row.some((square) => square.isCenter));
+  const rackKey = rack
+    .map((tile) => tile.id)
+    .sort()
+    .join(",");
+
+  const addMoves = (lineMoves: GeneratedMove[]) => {
+    for (const move of lineMoves) {
+      if (move.tiles.length === 1) {
+        const [{ x, y, letter, originalLetter }] = move.tiles;
+        const key = `${x},${y}${letter}${!!originalLetter}`;
+        if (singleTileMoves.has(key)) continue;
+        singleTileMoves.add(key);
+      }
+      moves.push(move);
+    }
+  };
+
+  for (const direction of ["horizontal", "vertical"] as const) {
+    // Lines are rows for horizontal moves and columns for vertical ones.
+    const squareAt = (line: number, pos: number): BoardSquare | undefined =>
+      direction === "horizontal" ? board[line]?.[pos] : board[pos]?.[line];
+    const letterAt = (line: number, pos: number) =>
+      squareAt(line, pos)?.tile?.letter ?? null;
+
+    for (let line = 0; line < size; line++) {
+      // The tiles across each empty square, which with the tiles on the line
+      // are all the moves on it depend on.
+      const crossWords: { before: string[]; after: string[]; points: number }[] = [];
+      for (let pos = 0; pos < size; pos++) {
+        const before: string[] = [];
+        const after: string[] = [];
+        let points = 0;
+        if (!squareAt(line, pos)!.tile) {
+          for (let l = line - 1; letterAt(l, pos); l--) {
+            before.unshift(letterAt(l, pos)!);
+            points += squareAt(l, pos)!.tile!.points;
+          }
+          for (let l = line + 1; letterAt(l, pos); l++) {
+            after.push(letterAt(l, pos)!);
+            points += squareAt(l, pos)!.tile!.points;
+          }
+        }
+        crossWords[pos] = { before, after, points };
+      }
+
+      let cacheKey: string | undefined;
+      if (cache) {
+        const squares = crossWords.map(({ before, after, points }, pos) => {
+          const tile = squareAt(line, pos)!.tile;
+          return tile
+            ? `${tile.letter}${tile.points}`
+            : `(${before.join("")}.${after.join("")}${points})`;
+        });
+        cacheKey = [direction, line, isBoardEmpty, rackKey, squares.join("")].join("|");
+        const cached = cache.get(cacheKey);
+        if (cached) {
+          addMoves(cached);
+          continue;
+        }
+      }
+      const lineMoves: GeneratedMove[] = [];
+
+      // Letters allowed on each square by the words across it, or null when
+      // nothing is across it, with the points of the tiles across it.
+      const crossChecks: (Set<string> | null)[] = [];
+      const crossScores: number[] = [];
+      const isAnchor: boolean[] = [];
+
+      for (let pos = 0; pos < size; pos++) {
+        crossChecks[pos] = null;
+        crossScores[pos] = 0;
+        isAnchor[pos] = false;
+        const square = squareAt(line, pos)!;
+        if (square.tile) continue;
+
+        const { before, after, points } = crossWords[pos];
+        const hasCrossWord = before.length > 0 || after.length > 0;
+
+        if (hasCrossWord) {
+          const allowed = new Set<string>();
+          const node = dawg.walk(before);
+          node?.edges.forEach((child, letter) => {
+            if (dawg.walk(after, child)?.isWord) allowed.add(letter);
+          });
+          crossChecks[pos] = allowed;
+          crossScores[pos] = points;
+        }
+
+        isAnchor[pos] = isBoardEmpty
+          ? hasCenter
+            ? square.isCenter
+            : line === Math.floor(size / 2) && pos === Math.floor(size / 2)
+          : !!(
+              hasCrossWord ||
+              letterAt(line, pos - 1) ||
+              letterAt(line, pos + 1)
+            );
+      }
+
+      const placed: Placement[] = [];
+
+      // Tiles can have more than one letter, so the word ends at `end`
+      // rather than after its length.
+      const recordMove = (start: number, end: number, word: string) => {
+        const placedAt: Placement[] = [];
+        placed.forEach((placement) => (placedAt[placement.pos] = placement));
+
+        let mainScore = 0;
+        let wordMultiplier = 1;
+        let crossScore = 0;
+        for (let pos = start; pos < end; pos++) {
+          const square = squareAt(line, pos)!;
+          if (square.tile) {
+            mainScore += square.tile.points;
+            continue;
+          }
+          const placement = placedAt[pos];
+          const letterMultiplier =
+            square.multiplierType === "letter" ? square.multiplier : 1;
+          const squareWordMultiplier =
+            square.multiplierType === "word" ? square.multiplier : 1;
+          const points = placement.isBlank
+            ? 0
+            : letterPoints[placement.letter] * letterMultiplier;
+          mainScore += points;
+          wordMultiplier *= squareWordMultiplier;
+          if (crossChecks[pos]) {
+            crossScore += (crossScores[pos] + points) * squareWordMultiplier;
+          }
+        }
+        const bingoBonus =
+          placed.length >= rules.rackSize ? rules.bingoBonus : 0;
+
+        const usedCounts: Record<string, number> = {};
+        const tiles = placed.map(({ pos, letter, isBlank }): PlacedTile => {
+          const rackLetter = isBlank ? BLANK : letter;
+          const used = usedCounts[rackLetter] ?? 0;
+          usedCounts[rackLetter] = used + 1;
+          const { id, points } = rackTilesByLetter[rackLetter][used];
+          const x = direction === "horizontal" ? line : pos;
+          const y = direction === "horizontal" ? pos : line;
+          return isBlank
+            ? { id, letter, points, originalLetter: BLANK, x, y }
+            : { id, letter, points, x, y };
+        });
+
+        lineMoves.push({
+          word,
+          tiles,
+          score: mainScore * wordMultiplier + crossScore + bingoBonus,
+          direction,
+          x: direction === "horizontal" ? line : start,
+          y: direction === "horizontal" ? start : line,
+        });
+      };
+
+      /** Takes a letter from the rack, or a blank if `isBlank` is set. */
+      const takeFromRack = (letter: string, isBlank: boolean) => {
+        const key = isBlank ? BLANK : letter;
+        if (!rackCounts[key]) return false;
+        rackCounts[key]--;
+        return true;
+      };
+      const returnToRack = (letter: string, isBlank: boolean) => {
+        rackCounts[isBlank ? BLANK : letter]++;
+      };
+
+      const extendRight = (
+        node: DawgNode,
+        pos: number,
+        anchor: number,
+        start: number,
+        word: string
+      ) => {
+        const existingLetter = letterAt(line, pos);
+        if (existingLetter) {
+          const child = node.edges.get(existingLetter);
+          if (child) {
+            extendRight(child, pos + 1, anchor, start, word + existingLetter);
+          }
+          return;
+        }
+
+        if (pos > anchor && node.isWord && pos - start > 1) {
+          recordMove(start, pos, word);
+        }
+        if (pos >= size) return;
+
+        const crossCheck = crossChecks[pos];
+        for (const [letter, child] of node.edges) {
+          if (crossCheck && !crossCheck.has(letter)) continue;
+          for (const isBlank of BLANK_OPTIONS) {
+            if (!takeFromRack(letter, isBlank)) continue;
+            placed.push({ pos, letter, isBlank });
+            extendRight(child, pos + 1, anchor, start, word + letter);
+            placed.pop();
+            returnToRack(letter, isBlank);
+          }
+        }
+      };
+
+      // Builds every prefix from the rack on the empty squares left of the
+      // anchor, which have nothing across them as they aren't anchors.
+      const leftPart = (
+        node: DawgNode,
+        anchor: number,
+        limit: number,
+        prefix: string
+      ) => {
+        const start = anchor - placed.length;
+        placed.forEach((placement, i) => (placement.pos = start + i));
+        extendRight(node, anchor, anchor, start, prefix);
+        if (limit === 0) return;
+        for (const [letter, child] of node.edges) {
+          for (const isBlank of BLANK_OPTIONS) {
+            if (!takeFromRack(letter, isBlank)) continue;
+            placed.push({ pos: 0, letter, isBlank });
+            leftPart(child, anchor, limit - 1, prefix + letter);
+            placed.pop();
+            returnToRack(letter, isBlank);
+          }
+        }
+      };
+
+      for (let anchor = 0; anchor < size; anchor++) {
+        if (!isAnchor[anchor]) continue;
+        placed.length = 0;
+
+        if (letterAt(line, anchor - 1)) {
+          // The tiles already on the board before the anchor start the word.
+          let start = anchor;
+          while (letterAt(line, start - 1)) start--;
+          const prefix: string[] = [];
+          for (let pos = start; pos < anchor; pos++) prefix.push(letterAt(line, pos)!);
+          const node = dawg.walk(prefix);
+          if (node) extendRight(node, anchor, anchor, start, prefix.join(""));
+          continue;
+        }
+
+        let limit = 0;
+        while (
+          limit < rack.length - 1 &&
+          anchor - limit - 1 >= 0 &&
+          !isAnchor[anchor - limit - 1] &&
+          !letterAt(line, anchor - limit - 1)
+        ) {
+          limit++;
+        }
+        leftPart(dawg.root, anchor, limit, "");
+      }
+
+      if (cacheKey) cache!.set(cacheKey, lineMoves);
+      addMoves(lineMoves);
+    }
+  }
+
+  return moves.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Monte Carlo evaluation of candidate moves.
+ *
+ * Each candidate is played out a few turns ahead against opponent racks drawn
+ * at random from the tiles the player can't see, with every player making
+ * their highest scoring move. Averaged over many draws this gives the spread
+ * a move can be expected to lead to, and a rough chance of winning from it,
+ * which account for what the move leaves on the rack and opens up for the
+ * opponents in a way that its score alone doesn't.
+ */
+import type { Board, GameRules, GameState, LanguageCode, Tile } from "@/types";
+import { evaluateLeave } from "./computer-player";
+import { getRackValue } from "./game-end";
+import { getGameRules } from "./game-rules";
+import { Dawg, GeneratedMove, generateMoves } from "./move-generator";
+import { createRandom } from "./random";
+import { shuffle } from "./utils";
+
+export interface SimulationPlayer {
+  id: string;
+  score: number;
+  rackSize: number;
+}
+
+/** A position as the player to move sees it. */
+export interface SimulationPosition {
+  board: Board;
+  rules: GameRules;
+  /** The player to move first, then the others in turn order. */
+  players: SimulationPlayer[];
+  rack: Tile[];
+  /** The bag and the other players' racks, which the player can't tell apart. */
+  unseenTiles: Tile[];
+}
+
+/** Only the tiles and score of a move are needed to play it out. */
+export type SimulationCandidate = Pick<GeneratedMove, "tiles" | "score">;
+
+export interface SimulationOptions {
+  /** Most draws of the unseen tiles to play every candidate out against. */
+  iterations: number;
+  /** Turns played after the candidate, by the opponents and then the player. */
+  plies: number;
+  /** Stops drawing again after this long, though every candidate gets one draw. */
+  timeLimitMs: number;
+  seed: number;
+}
+
+export interface MoveSimulation {
+  /** Average points ahead of the best opponent after the turns played out. */
+  expectedSpread: number;
+  /** Estimated chance of winning the game, from 0 to 1. */
+  winProbability: number;
+  iterations: number;
+}
+
+/** What the simulation worker is asked to work out. */
+export interface SimulationRequest {
+  language?: LanguageCode;
+  position: SimulationPosition;
+  candidates: SimulationCandidate[];
+  options?: Partial<SimulationOptions>;
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  iterations: 50,
+  plies: 2,
+  timeLimitMs: 2000,
+  seed: 0,
+};
+
+/**
+ * Spread is less certain the more tiles there are to play, so it counts for
+ * less when guessing the winner. A lead of this many points plus one for each
+ * tile left is worth about a 73% chance of winning.
+ */
+const WIN_SPREAD_SCALE = 5;
+
+/** Estimates the chance of winning with a lead, while tiles are still unplayed. */
+export const estimateWinProbability = (spread: number, tilesLeft: number) =>
+  1 / (1 + Math.exp(-spread / (WIN_SPREAD_SCALE + tilesLeft)));
+
+/** Creates the position a player is in, without what they can't see. */
+export function createSimulationPosition(
+  gameState: GameState,
+  playerId: string
+): SimulationPosition {
+  const order = gameState.turnOrder ?? gameState.players.map((p) => p.id);
+  const start = Math.max(0, order.indexOf(playerId));
+  const players = [...order.slice(start), ...order.slice(0, start)]
+    .map((id) => gameState.players.find((p) => p.id === id))
+    .filter((p) => !!p);
+  const player = gameState.players.find((p) => p.id === playerId)!;
+  return {
+    board: gameState.board,
+    rules: getGameRules(gameState),
+    players: players.map((p) => ({
+      id: p.id,
+      score: p.score,
+      rackSize: p.rack.length,
+    })),
+    rack: player.rack,
+    unseenTiles: [
+      ...gameState.tileBag,
+      ...players.filter((p) => p.id !== playerId).flatMap((p) => p.rack),
+    ],
+  };
+}
+
+/**
+ * Plays a candidate out against one draw of the unseen tiles, returning the
+ * spread it ends with and whether it wins, or the chance it does if the game
+ * isn't over.
+ */
+function playOut(
+  position: SimulationPosition,
+  candidate: SimulationCandidate,
+  unseenTiles: Tile[],
+  dawg: Dawg,
+  plies: number
+): { spread: number; win: number } {
+  const { rules } = position;
+  const board: Board = position.board.map((row) =>
+    row.map((square) => ({ ...square }))
+  );
+  const bag = [...unseenTiles];
+  const racks = position.players.map((player, i) =>
+    i === 0
+      ? position.rack.filter((t) => !candidate.tiles.some((p) => p.id === t.id))
+      : bag.splice(0, player.rackSize)
+  );
+  const scores = position.players.map((p) => p.score);
+
+  let playerOut: number | null = null;
+  const play = (index: number, move: SimulationCandidate) => {
+    move.tiles.forEach((tile) => (board[tile.x][tile.y].tile = tile));
+    const usedIds = new Set(move.tiles.map((t) => t.id));
+    racks[index] = racks[index].filter((t) => !usedIds.has(t.id));
+    racks[index].push(...bag.splice(0, rules.rackSize - racks[index].length));
+    scores[index] += move.score;
+    if (racks[index].length === 0) playerOut = index;
+  };
+
+  play(0, candidate);
+  for (let ply = 1; ply <= plies && playerOut === null; ply++) {
+    const index = ply % position.players.length;
+    const [best] = generateMoves(board, racks[index], dawg, rules);
+    if (best) play(index, best);
+  }
+
+  if (playerOut !== null) {
+    racks.forEach((rack, i) => {
+      const value = getRackValue(rack);
+      scores[i] -= value;
+      scores[playerOut!] += value;
+    });
+  }
+  const spread =
+    scores[0] - (scores.length > 1 ? Math.max(...scores.slice(1)) : 0);
+  if (playerOut !== null) {
+    return { spread, win: spread > 0 ? 1 : spread === 0 ? 0.5 : 0 };
+  }
+  // The tiles the player keeps are worth something for the turns to come.
+  const equity = spread + (bag.length > 0 ? evaluateLeave(racks[0], rules.language) : 0);
+  const tilesLeft = racks.reduce((sum, rack) => sum + rack.length, bag.length);
+  return { spread, win: estimateWinProbability(equity, tilesLeft) };
+}
+
+/**
+ * Plays every candidate out against the same random draws of the unseen
+ * tiles, so they are compared fairly, until the iterations or time run out.
+ * Returns one simulation for each candidate, in the same order.
+ */
+export function simulateMoves(
+  position: SimulationPosition,
+  candidates: SimulationCandidate[],
+  dawg: Dawg,
+  options: Partial<SimulationOptions> = {}
+): MoveSimulation[] {
+  const { iterations, plies, timeLimitMs, seed } = {
+    ...DEFAULT_SIMULATION_OPTIONS,
+    ...options,
+  };
+  const random = createRandom(seed);
+  const deadline = Date.now() + timeLimitMs;
+  const totals = candidates.map(() => ({ spread: 0, wins: 0 }));
+
+  let iteration = 0;
+  while (iteration < iterations && (iteration === 0 || Date.now() < deadline)) {
+    const unseenTiles = shuffle(position.unseenTiles, random.next);
+    candidates.forEach((candidate, i) => {
+      const { spread, win } = playOut(position, candidate, unseenTiles, dawg, plies);
+      totals[i].spread += spread;
+      totals[i].wins += win;
+    });
+    iteration++;
+  }
+
+  return totals.map(({ spread, wins }) => ({
+    expectedSpread: spread / iteration,
+    winProbability: wins / iteration,
+    iterations: iteration,
+  }));
+}
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { GameState, PlacedTile, Tile } from "@/types";
+import { replayGameEvents } from "./game-events";
+import { MIN_BAG_SIZE_TO_SWAP } from "./game-rules";
+import { validateMove } from "./move-validator";
+
+const timestamp = "2025-01-01T00:00:00.000Z";
+const WORDS = new Set(["CAT", "CATS"]);
+
+/** A game between ANN, to move, and BOB, with ANN holding the given letters. */
+const createGame = (letters: string): GameState => {
+  const gameState = replayGameEvents([
+    { type: "gameCreated", timestamp, gameId: "TEST", seed: 1 },
+    { type: "playerJoined", timestamp, player: { id: "ann", name: "ANN", code: "" } },
+    { type: "playerJoined", timestamp, player: { id: "bob", name: "BOB", code: "" } },
+    { type: "gameStarted", timestamp, turnOrder: ["ann", "bob"], turnOrderDraws: {} },
+  ]);
+  const tileIds = Array.from(letters).map((letter) => {
+    const tile = gameState.tileBag.find(
+      (t) => t.letter === letter && !gameState.players[0].rack.includes(t)
+    )!;
+    gameState.players[0].rack.push(tile);
+    return tile.id;
+  });
+  gameState.tileBag = gameState.tileBag.filter((t) => !tileIds.includes(t.id));
+  return gameState;
+};
+
+const rackTile = (gameState: GameState, letter: string): Tile =>
+  gameState.players[0].rack.find((t) => t.letter === letter)!;
+
+/** Places rack tiles across from a square, by letter. */
+const placeAcross = (gameState: GameState, letters: string, x: number, y: number) =>
+  Array.from(letters).map((letter, i): PlacedTile => ({
+    ...rackTile(gameState, letter),
+    x,
+    y: y + i,
+  }));
+
+const getCodes = (result: ReturnType<typeof validateMove>) =>
+  result.isValid ? [] : result.reasons.map((r) => r.code);
+
+describe("validateMove", () => {
+  it("scores a play from the rack's tiles, not the client's", () => {
+    const gameState = createGame("CATSEEE");
+    const tiles = placeAcross(gameState, "CAT", 7, 6).map((t) => ({ ...t, points: 10 }));
+    const result = validateMove(gameState, "ann", { type: "play", tiles }, WORDS);
+    assert.equal(result.isValid, true);
+    // C, A and T are 3, 1 and 1, doubled by the centre square.
+    assert.equal(result.isValid && result.score, 10);
+    assert.deepEqual(result.isValid && result.words, ["CAT"]);
+  });
+
+  it("only lets the player whose turn it is move", () => {
+    const gameState = createGame("CATSEEE");
+    const result = validateMove(gameState, "bob", { type: "pass" }, WORDS);
+    assert.deepEqual(getCodes(result), ["NOT_YOUR_TURN"]);
+  });
+
+  it("rejects tiles that aren't on the player's rack", () => {
+    const gameState = createGame("CATSEEE");
+    const tiles = placeAcross(gameState, "CAT", 7, 6);
+    tiles[0] = { ...tiles[0], id: gameState.tileBag[0].id };
+    const result = validateMove(gameState, "ann", { type: "play", tiles }, WORDS);
+    assert.deepEqual(getCodes(result), ["TILE_NOT_IN_RACK"]);
+  });
+
+  it("makes the first word cover the centre", () => {
+    const gameState = createGame("CATSEEE");
+    const tiles = placeAcross(gameState, "CAT", 0, 0);
+    const result = validateMove(gameState, "ann", { type: "play", tiles }, WORDS);
+    assert.deepEqual(getCodes(result), ["CENTER_NOT_COVERED"]);
+  });
+
+  it("rejects words that aren't in the word list", () => {
+    const gameState = createGame("CATSEEE");
+    const tiles = placeAcross(gameState, "TAC", 7, 6);
+    const result = validateMove(gameState, "ann", { type: "play", tiles }, WORDS);
+    assert.deepEqual(getCodes(result), ["INVALID_WORD"]);
+  });
+
+  it("only allows swaps with enough tiles left in the bag", () => {
+    const gameState = createGame("CATSEEE");
+    const move = { type: "swap" as const, tiles: [rackTile(gameState, "E")] };
+    assert.equal(validateMove(gameState, "ann", move, WORDS).isValid, true);
+
+    gameState.tileBag = gameState.tileBag.slice(0, MIN_BAG_SIZE_TO_SWAP - 1);
+    assert.deepEqual(getCodes(validateMove(gameState, "ann", move, WORDS)), [
+      "NOT_ENOUGH_TILES_IN_BAG",
+    ]);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * @fileoverview Server-authoritative validation of moves against a game state.
+ */
+import type {
+  Board,
+  GameState,
+  Move,
+  PlacedTile,
+  ScoreBreakdown,
+  Tile,
+} from "@/types";
+import { calculateMoveScore } from "./scoring";
+import { getGameRules, MIN_BAG_SIZE_TO_SWAP } from "./game-rules";
+import { getCurrentPlayer } from "./turns";
+import {
+  getLanguage,
+  hasMultiLetterTiles,
+  Language,
+  splitIntoTiles,
+} from "./languages";
+
+export type MoveRejectionCode =
+  | "GAME_NOT_PLAYING"
+  | "PLAYER_NOT_FOUND"
+  | "NOT_YOUR_TURN"
+  | "PLAY_PENDING"
+  | "NO_TILES"
+  | "DUPLICATE_TILE"
+  | "TILE_NOT_IN_RACK"
+  | "INVALID_BLANK"
+  | "OUT_OF_BOUNDS"
+  | "SQUARE_OCCUPIED"
+  | "NOT_IN_LINE"
+  | "NOT_CONTIGUOUS"
+  | "NOT_CONNECTED"
+  | "CENTER_NOT_COVERED"
+  | "NO_WORDS_FORMED"
+  | "INVALID_WORD"
+  | "WRONG_TILES"
+  | "NOT_ENOUGH_TILES_IN_BAG";
+
+export interface MoveRejection {
+  code: MoveRejectionCode;
+  message: string;
+  word?: string;
+  tileId?: string;
+}
+
+export type MoveValidationResult =
+  | {
+      isValid: true;
+      /** The move rebuilt from the player's rack, ignoring client tile data. */
+      move: Move;
+      score: number;
+      words: string[];
+      mainWord?: string;
+      scoreBreakdown?: ScoreBreakdown;
+    }
+  | { isValid: false; reasons: MoveRejection[] };
+
+const reject = (...reasons: MoveRejection[]): MoveValidationResult => ({
+  isValid: false,
+  reasons,
+});
+
+/**
+ * Replaces client supplied tiles with the matching tiles from the rack, so the
+ * letters and points used for scoring always come from the server state.
+ */
+const resolveRackTiles = <T extends Tile>(
+  tiles: T[],
+  rack: Tile[],
+  language: Language
+): { tiles: T[]; reasons: MoveRejection[] } => {
+  const reasons: MoveRejection[] = [];
+  const rackById = new Map(rack.map((t) => [t.id, t]));
+  const seenIds = new Set<string>();
+  const resolved = tiles.map((tile) => {
+    if (seenIds.has(tile.id)) {
+      reasons.push({
+        code: "DUPLICATE_TILE",
+        message: "The same tile was used more than once.",
+        tileId: tile.id,
+      });
+    }
+    seenIds.add(tile.id);
+
+    const rackTile = rackById.get(tile.id);
+    if (!rackTile) {
+      reasons.push({
+        code: "TILE_NOT_IN_RACK",
+        message: `The tile "${tile.letter}" is not in your rack.`,
+        tileId: tile.id,
+      });
+      return tile;
+    }
+
+    if (rackTile.letter !== " ") {
+      return { ...tile, ...rackTile, originalLetter: undefined };
+    }
+    const letter = (tile.letter || "").toUpperCase();
+    if (!language.alphabet.includes(letter)) {
+      reasons.push({
+        code: "INVALID_BLANK",
+        message: "A blank tile must be assigned a single letter.",
+        tileId: tile.id,
+      });
+    }
+    return { ...tile, ...rackTile, letter, points: 0, originalLetter: " " };
+  });
+  return { tiles: resolved, reasons };
+};
+
+/**
+ * Checks where new tiles go: on empty squares, in one line without gaps, and
+ * through the centre or next to tiles already on the board.
+ */
+export const validatePlacement = (
+  board: Board,
+  tiles: PlacedTile[]
+): MoveRejection[] => {
+  const size = board.length;
+  const reasons: MoveRejection[] = [];
+
+  for (const tile of tiles) {
+    if (
+      !Number.isInteger(tile.x) ||
+      !Number.isInteger(tile.y) ||
+      tile.x < 0 ||
+      tile.y < 0 ||
+      tile.x >= size ||
+      tile.y >= size
+    ) {
+      return [
+        {
+          code: "OUT_OF_BOUNDS",
+          message: "A tile was placed outside the board.",
+          tileId: tile.id,
+        },
+      ];
+    }
+    if (board[tile.x][tile.y].tile) {
+      reasons.push({
+        code: "SQUARE_OCCUPIED",
+        message: "A tile was placed on an occupied square.",
+        tileId: tile.id,
+      });
+    }
+  }
+  const positions = new Set(tiles.map((t) => `${t.x},${t.y}`));
+  if (positions.size !== tiles.length) {
+    reasons.push({
+      code: "SQUARE_OCCUPIED",
+      message: "Two tiles were placed on the same square.",
+    });
+  }
+  if (reasons.length > 0) return reasons;
+
+  const isHorizontal = tiles.every((t) => t.x === tiles[0].x);
+  const isVertical = tiles.every((t) => t.y === tiles[0].y);
+  if (!isHorizontal && !isVertical) {
+    return [
+      {
+        code: "NOT_IN_LINE",
+        message: "All tiles must be placed in a single row or column.",
+      },
+    ];
+  }
+
+  // Every square between the first and last new tile must be filled.
+  const line = tiles.map((t) => (isHorizontal ? t.y : t.x));
+  const start = Math.min(...line);
+  const end = Math.max(...line);
+  for (let i = start; i <= end; i++) {
+    const x = isHorizontal ? tiles[0].x : i;
+    const y = isHorizontal ? i : tiles[0].y;
+    if (!board[x][y].tile && !positions.has(`${x},${y}`)) {
+      reasons.push({
+        code: "NOT_CONTIGUOUS",
+        message: "Tiles must form a single word without gaps.",
+      });
+      break;
+    }
+  }
+
+  const isFirstMove = board.every((row) => row.every((square) => !square.tile));
+  if (isFirstMove) {
+    if (!tiles.some((t) => board[t.x][t.y].isCenter)) {
+      reasons.push({
+        code: "CENTER_NOT_COVERED",
+        message: "The first word must cover the centre square.",
+      });
+    }
+  } else {
+    const touchesExisting = tiles.some((t) =>
+      [
+        [t.x - 1, t.y],
+        [t.x + 1, t.y],
+        [t.x, t.y - 1],
+        [t.x, t.y + 1],
+      ].some(([x, y]) => board[x]?.[y]?.tile)
+    );
+    if (!touchesExisting) {
+      reasons.push({
+        code: "NOT_CONNECTED",
+        message: "New tiles must connect to tiles already on the board.",
+      });
+    }
+  }
+  return reasons;
+};
+
+/**
+ * Checks that a player may make a move in the given game state.
+ *
+ * Validation never trusts the client: tiles are looked up in the player's rack
+ * by id and the score is recalculated from the board.
+ */
+export function validateMove(
+  gameState: GameState,
+  playerId: string,
+  move: Move,
+  wordSet: Set<string>
+): MoveValidationResult {
+  if (gameState.gamePhase !== "playing") {
+    return reject({
+      code: "GAME_NOT_PLAYING",
+      message: "The game is not in progress.",
+    });
+  }
+  const player = gameState.players.find((p) => p.id === playerId);
+  if (!player) {
+    return reject({ code: "PLAYER_NOT_FOUND", message: "Player not found." });
+  }
+  if (getCurrentPlayer(gameState)?.id !== playerId) {
+    return reject({ code: "NOT_YOUR_TURN", message: "It is not your turn." });
+  }
+  // A play that used the last tiles ends the game once it stands.
+  const { pendingPlay } = gameState;
+  if (
+    pendingPlay &&
+    gameState.players.find((p) => p.id === pendingPlay.playerId)?.rack.length === 0
+  ) {
+    return reject({
+      code: "PLAY_PENDING",
+      message: "Accept or challenge the last play first.",
+    });
+  }
+
+  if (move.type === "pass") {
+    return { isValid: true, move, score: 0, words: [] };
+  }
+
+  const rules = getGameRules(gameState);
+  const language = getLanguage(rules.language);
+
+  if (move.tiles.length === 0) {
+    return reject({ code: "NO_TILES", message: "No tiles were selected." });
+  }
+
+  if (move.type === "swap") {
+    const { tiles, reasons } = resolveRackTiles(move.tiles, player.rack, language);
+    if (gameState.tileBag.length < Math.max(tiles.length, MIN_BAG_SIZE_TO_SWAP)) {
+      reasons.push({
+        code: "NOT_ENOUGH_TILES_IN_BAG",
+        message: `Tiles can only be swapped with at least ${MIN_BAG_SIZE_TO_SWAP} left in the bag.`,
+      });
+    }
+    if (reasons.length > 0) return reject(...reasons);
+    return { isValid: true, move: { type: "swap", tiles }, score: 0, words: [] };
+  }
+
+  const { tiles, reasons } = resolveRackTiles(move.tiles, player.rack, language);
+  if (reasons.length > 0) return reject(...reasons);
+
+  const placementReasons = validatePlacement(gameState.board, tiles);
+  if (placementReasons.length > 0) return reject(...placementReasons);
+
+  const scoreBreakdown = calculateMoveScore(tiles, gameState.board, rules);
+  const { score, words } = scoreBreakdown;
+  if (words.length === 0) {
+    return reject({
+      code: "NO_WORDS_FORMED",
+      message: "No words were formed.",
+    });
+  }
+
+  // Otherwise invalid words are left for opponents to challenge.
+  const invalidWords =
+    rules.challengeMode === "void"
+      ? words.filter((w) => !wordSet.has(w.word.toUpperCase()))
+      : [];
+  if (invalidWords.length > 0) {
+    return reject(
+      ...invalidWords.map(
+        (w): MoveRejection => ({
+          code: "INVALID_WORD",
+          message: `The word "${w.word}" is not valid.`,
+          word: w.word,
+        })
+      )
+    );
+  }
+
+  // A word can only be played with the tiles it splits into, so a Spanish
+  // word with "CH" in it needs the CH tile rather than a C and an H.
+  if (hasMultiLetterTiles(language)) {
+    const wrongTileWords = words.filter((w) => {
+      const letters = splitIntoTiles(w.word, language);
+      return (
+        !!letters &&
+        letters.join(",") !== w.letters.map((l) => l.letter).join(",")
+      );
+    });
+    if (wrongTileWords.length > 0) {
+      return reject(
+        ...wrongTileWords.map((w): MoveRejection => {
+          const letters = splitIntoTiles(w.word, language)!;
+          return {
+            code: "WRONG_TILES",
+            message: `The word "${w.word}" must be played with the ${letters
+              .filter((l) => l.length > 1)
+              .join(" and ")} tile.`,
+            word: w.word,
+          };
+        })
+      );
+    }
+  }
+
+  return {
+    isValid: true,
+    move: { type: "play", tiles },
+    score,
+    words: words.map((w) => w.word),
+    mainWord: words[0].word,
+    scoreBreakdown,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Player codes and session tokens, used only on the server.
+ *
+ * Codes are stored as salted scrypt hashes, since game files are public.
+ * Signing in with a code gives a session token for that player in that game,
+ * signed with `SESSION_SECRET`, which every action that changes the game as a
+ * player has to be called with.
+ */
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000;
+
+interface SessionPayload {
+  gameId: string;
+  playerId: string;
+  /** When the token stops being accepted, in milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+// Kept on globalThis so sessions survive module reloads in development.
+const globalForAuth = globalThis as typeof globalThis & {
+  scrabblexSessionSecret?: string;
+};
+
+const getSessionSecret = (): string => {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (!globalForAuth.scrabblexSessionSecret) {
+    console.warn(
+      "SESSION_SECRET is not set, players will have to sign in again when the server restarts."
+    );
+    globalForAuth.scrabblexSessionSecret = randomBytes(32).toString("hex");
+  }
+  return globalForAuth.scrabblexSessionSecret;
+};
+
+const isEqual = (a: Buffer, b: Buffer) =>
+  a.length === b.length && timingSafeEqual(a, b);
+
+export const isHashedCode = (code: string) =>
+  code.startsWith(`${HASH_PREFIX}:`);
+
+export async function hashPlayerCode(code: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(code, salt, KEY_LENGTH);
+  return [HASH_PREFIX, salt.toString("hex"), hash.toString("hex")].join(":");
+}
+
+/**
+ * Checks a code against a stored hash. Games saved before codes were hashed
+ * still hold them as plain text.
+ */
+export async function verifyPlayerCode(
+  code: string,
+  storedCode: string
+): Promise<boolean> {
+  if (!isHashedCode(storedCode)) {
+    return isEqual(Buffer.from(code), Buffer.from(storedCode));
+  }
+  const [, salt, hash] = storedCode.split(":");
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(code, Buffer.from(salt, "hex"), expected.length);
+  return isEqual(actual, expected);
+}
+
+const sign = (payload: string) =>
+  createHmac("sha256", getSessionSecret()).update(payload).digest("base64url");
+
+export function createSessionToken(gameId: string, playerId: string): string {
+  const payload: SessionPayload = {
+    gameId,
+    playerId,
+    expiresAt: Date.now() + SESSION_DURATION,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Returns the id of the player a token was issued to, or null if it isn't a
+ * valid token for the game.
+ */
+export function verifySessionToken(
+  token: string | null | undefined,
+  gameId: string
+): string | null {
+  const [encoded, signature] = token?.split(".") ?? [];
+  if (!encoded || !signature) return null;
+  if (!isEqual(Buffer.from(signature), Buffer.from(sign(encoded)))) return null;
+  try {
+    const payload: SessionPayload = JSON.parse(
+      Buffer.from(encoded, "base64url").toString()
+    );
+    if (payload.gameId !== gameId || payload.expiresAt < Date.now()) {
+      return null;
+    }
+    return payload.playerId;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTileBag } from "./game-data";
+import { createRandom, createTileId } from "./random";
+import { shuffle } from "./utils";
+
+const take = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => random());
+
+describe("createRandom", () => {
+  it("gives the same numbers from the same seed", () => {
+    assert.deepEqual(take(createRandom(42).next, 5), take(createRandom(42).next, 5));
+    assert.notDeepEqual(take(createRandom(42).next, 5), take(createRandom(43).next, 5));
+  });
+
+  it("carries on from a saved state", () => {
+    const random = createRandom(42);
+    take(random.next, 3);
+    const resumed = createRandom(random.getState());
+    assert.deepEqual(take(resumed.next, 3), take(random.next, 3));
+  });
+
+  it("stays in [0, 1)", () => {
+    assert.ok(take(createRandom(7).next, 1000).every((n) => n >= 0 && n < 1));
+  });
+});
+
+describe("seeded shuffling", () => {
+  it("shuffles the same way from the same seed", () => {
+    const letters = Array.from("ABCDEFGHIJKLMNOPQRSTUVWXYZ");
+    const shuffled = shuffle(letters, createRandom(1).next);
+    assert.deepEqual(shuffle(letters, createRandom(1).next), shuffled);
+    assert.notDeepEqual(shuffle(letters, createRandom(2).next), shuffled);
+    assert.deepEqual([...shuffled].sort(), letters);
+  });
+
+  it("creates the same tile bag, with unique ids, from the same seed", () => {
+    const bag = createTileBag("en", createRandom(1).next);
+    assert.deepEqual(createTileBag("en", createRandom(1).next), bag);
+    assert.equal(new Set(bag.map((t) => t.id)).size, bag.length);
+  });
+
+  it("doesn't reuse tile ids", () => {
+    const usedIds = new Set(["0000"]);
+    // The first id made is "0000", which is taken, so another is made.
+    let calls = 0;
+    const id = createTileId(() => (calls++ === 0 ? 0 : 0.5), usedIds);
+    assert.notEqual(id, "0000");
+    assert.ok(usedIds.has(id));
+  });
+});
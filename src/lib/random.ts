@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Seeded pseudo-random numbers, so games can be reproduced.
+ *
+ * Uses the mulberry32 generator: its whole state is a single 32-bit integer,
+ * which is stored on the game state between moves.
+ */
+
+export interface Random {
+  /** Returns a number in [0, 1), like `Math.random`. */
+  next: () => number;
+  /** The current state, which continues the sequence when passed back in. */
+  getState: () => number;
+}
+
+/** Creates a new random seed for a game. */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+export function createRandom(state: number): Random {
+  let current = state >>> 0;
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+    },
+    getState: () => current,
+  };
+}
+
+/** Creates a four character tile id that is not already in `usedIds`. */
+export function createTileId(
+  random: () => number,
+  usedIds: Set<string>
+): string {
+  let id: string;
+  do {
+    id = Math.floor(random() * 36 ** 4)
+      .toString(36)
+      .padStart(4, "0")
+      .toUpperCase();
+  } while (usedIds.has(id));
+  usedIds.add(id);
+  return id;
+}
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Board, GameRules, PlacedTile } from "@/types";
+import { createInitialBoard } from "./game-data";
+import { DEFAULT_GAME_RULES } from "./game-rules";
+import { calculateMoveScore, describeScoreBreakdown } from "./scoring";
+
+const rules: GameRules = {
+  ...DEFAULT_GAME_RULES,
+  boardSize: 5,
+  premiumSquares: [
+    { multiplierType: "letter", multiplier: 3, squares: [[2, 0]] },
+    { multiplierType: "letter", multiplier: 2, squares: [[2, 1]] },
+    { multiplierType: "word", multiplier: 2, squares: [[2, 2]] },
+  ],
+};
+const POINTS: Record<string, number> = { A: 1, C: 3, S: 1, T: 1 };
+
+let nextId = 0;
+const createTile = (letter: string, x: number, y: number): PlacedTile => ({
+  id: `t${nextId++}`,
+  letter,
+  points: POINTS[letter],
+  x,
+  y,
+});
+
+/** A board with the given letters already played, from a square in a direction. */
+const createBoard = (words: [string, number, number, "across" | "down"][] = []): Board => {
+  const board = createInitialBoard(rules);
+  words.forEach(([word, x, y, direction]) =>
+    Array.from(word).forEach((letter, i) => {
+      const [tx, ty] = direction === "across" ? [x, y + i] : [x + i, y];
+      board[tx][ty].tile = createTile(letter, tx, ty);
+    })
+  );
+  return board;
+};
+
+describe("calculateMoveScore", () => {
+  it("only counts the premium squares under new tiles", () => {
+    const board = createBoard([["A", 2, 1, "across"]]);
+    const breakdown = calculateMoveScore([createTile("C", 2, 0), createTile("T", 2, 2)], board, rules);
+    assert.equal(breakdown.score, 22);
+    assert.equal(describeScoreBreakdown(breakdown), "CAT: (3×3 + 1 + 1) ×2 = 22");
+  });
+
+  it("scores the main word first, then the words across it", () => {
+    const board = createBoard([
+      ["CAT", 0, 1, "across"],
+      ["A", 1, 4, "across"],
+    ]);
+    const breakdown = calculateMoveScore([createTile("S", 0, 4)], board, rules);
+    assert.deepEqual(
+      breakdown.words.map((w) => [w.word, w.x, w.y, w.direction, w.score]),
+      [
+        ["CATS", 0, 1, "horizontal", 6],
+        ["SA", 0, 4, "vertical", 2],
+      ]
+    );
+    assert.equal(breakdown.score, 8);
+  });
+
+  it("scores words spelled the same in different places", () => {
+    const board = createBoard([["AA", 1, 3, "across"]]);
+    const breakdown = calculateMoveScore([createTile("A", 0, 3), createTile("A", 0, 4)], board, rules);
+    assert.deepEqual(breakdown.words.map((w) => w.word), ["AA", "AA", "AA"]);
+    assert.equal(breakdown.score, 6);
+  });
+
+  it("adds the bingo bonus for using the whole rack", () => {
+    const breakdown = calculateMoveScore(
+      [createTile("C", 0, 0), createTile("A", 0, 1), createTile("T", 0, 2)],
+      createBoard(),
+      { rackSize: 3, bingoBonus: 50 }
+    );
+    assert.equal(breakdown.isBingo, true);
+    assert.equal(breakdown.score, 55);
+    assert.equal(describeScoreBreakdown(breakdown), "CAT: 3 + 1 + 1 = 5, bingo +50");
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Runs move simulations and endgame searches on a worker
+ * thread, so server actions and other requests aren't blocked while they run.
+ *
+ * A single worker is started on first use and kept for later simulations,
+ * which then don't have to build the DAWG again. It is started again if it
+ * exits. Where the worker can't be started at all, such as a server running
+ * the TypeScript source directly, tasks run on the calling thread instead.
+ */
+import { Worker } from "worker_threads";
+import type { GameState } from "@/types";
+import { getGameRules } from "./game-rules";
+import {
+  createSimulationPosition,
+  MoveSimulation,
+  SimulationCandidate,
+  SimulationOptions,
+  SimulationRequest,
+} from "./move-simulation";
+import {
+  createEndgamePosition,
+  EndgameOptions,
+  EndgameSolution,
+} from "./endgame-solver";
+import {
+  runWorkerTask,
+  WorkerResult,
+  WorkerResults,
+  WorkerTask,
+} from "./simulation-tasks";
+
+interface PendingTask {
+  task: WorkerTask;
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface SimulationWorker {
+  worker: Worker;
+  pending: Map<number, PendingTask>;
+  nextId: number;
+  /** Whether the worker has finished a task, so it is known to start. */
+  hasAnswered: boolean;
+}
+
+// Kept on globalThis so module reloads in development don't start another.
+const globalForSimulation = globalThis as typeof globalThis & {
+  scrabblexSimulationWorker?: SimulationWorker;
+  scrabblexSimulationWorkerFailed?: boolean;
+};
+
+/** Runs every later task on the calling thread, as the worker can't start. */
+const markWorkerFailed = (error: unknown) => {
+  if (!globalForSimulation.scrabblexSimulationWorkerFailed) {
+    console.warn(
+      "The simulation worker could not be started, running simulations on the server thread:",
+      error instanceof Error ? error.message : error
+    );
+  }
+  globalForSimulation.scrabblexSimulationWorkerFailed = true;
+};
+
+const getSimulationWorker = (): SimulationWorker | null => {
+  if (globalForSimulation.scrabblexSimulationWorkerFailed) return null;
+  if (globalForSimulation.scrabblexSimulationWorker) {
+    return globalForSimulation.scrabblexSimulationWorker;
+  }
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./simulation-worker.ts", import.meta.url));
+  } catch (error) {
+    markWorkerFailed(error);
+    return null;
+  }
+  const simulationWorker: SimulationWorker = {
+    worker,
+    pending: new Map(),
+    nextId: 0,
+    hasAnswered: false,
+  };
+  const { pending } = simulationWorker;
+  const settle = (id: number) => {
+    const request = pending.get(id);
+    pending.delete(id);
+    // An idle worker shouldn't keep the server from exiting.
+    if (pending.size === 0) worker.unref();
+    return request;
+  };
+  worker.on(
+    "message",
+    ({ id, result, error }: { id: number; result?: WorkerResult; error?: string }) => {
+      simulationWorker.hasAnswered = true;
+      const request = settle(id);
+      if (result) request?.resolve(result);
+      else request?.reject(new Error(error ?? "The worker task failed."));
+    }
+  );
+  const failAll = (error: Error) => {
+    if (globalForSimulation.scrabblexSimulationWorker === simulationWorker) {
+      delete globalForSimulation.scrabblexSimulationWorker;
+    }
+    if (!simulationWorker.hasAnswered) {
+      // The worker never ran, so the tasks are run here instead.
+      markWorkerFailed(error);
+      Array.from(pending.keys()).forEach((id) => {
+        const request = settle(id)!;
+        runWorkerTask(request.task).then(request.resolve, request.reject);
+      });
+      return;
+    }
+    Array.from(pending.keys()).forEach((id) => settle(id)?.reject(error));
+  };
+  worker.on("error", failAll);
+  worker.on("exit", (code) =>
+    failAll(new Error(`The simulation worker exited with code ${code}.`))
+  );
+  worker.unref();
+  globalForSimulation.scrabblexSimulationWorker = simulationWorker;
+  return simulationWorker;
+};
+
+/** Runs a task on the worker thread, or this one without a worker. */
+function runTask<T extends WorkerTask>(task: T): Promise<WorkerResults[T["type"]]>;
+function runTask(task: WorkerTask): Promise<WorkerResult> {
+  const simulationWorker = getSimulationWorker();
+  if (!simulationWorker) return runWorkerTask(task);
+  const id = simulationWorker.nextId++;
+  return new Promise<WorkerResult>((resolve, reject) => {
+    simulationWorker.pending.set(id, { task, resolve, reject });
+    simulationWorker.worker.ref();
+    simulationWorker.worker.postMessage({ id, task });
+  });
+}
+
+/** Runs a simulation on the worker thread. */
+export const runSimulation = (request: SimulationRequest) =>
+  runTask({ type: "simulate", request });
+
+/**
+ * Simulates candidate moves for a player in a game, as they see it. The draws
+ * are seeded from the game, so the same position gets the same draws, as many
+ * as there is time for.
+ */
+export function simulateGameMoves(
+  gameState: GameState,
+  playerId: string,
+  candidates: SimulationCandidate[],
+  options: Partial<SimulationOptions> = {}
+): Promise<MoveSimulation[]> {
+  return runSimulation({
+    language: getGameRules(gameState).language,
+    position: createSimulationPosition(gameState, playerId),
+    candidates,
+    options: {
+      seed: (gameState.rngState ?? gameState.seed ?? 0) + gameState.history.length,
+      ...options,
+    },
+  });
+}
+
+/**
+ * Solves the endgame of a two-player game with the bag empty for the player
+ * to move, or returns null if there is no such endgame.
+ */
+export async function solveGameEndgame(
+  gameState: GameState,
+  playerId: string,
+  options: Partial<EndgameOptions> = {}
+): Promise<EndgameSolution | null> {
+  const position = createEndgamePosition(gameState, playerId);
+  if (!position) return null;
+  return runTask({
+    type: "solveEndgame",
+    request: { language: getGameRules(gameState).language, position, options },
+  });
+}
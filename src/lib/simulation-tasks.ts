@@ -0,0 +1,36 @@
+/**
+ * @fileoverview The tasks run by the simulation worker, which are run on the
+ * calling thread instead when the worker can't be started.
+ */
+import { getDawg } from "./dictionary-service";
+import { MoveSimulation, simulateMoves, SimulationRequest } from "./move-simulation";
+import { EndgameRequest, EndgameSolution, solveEndgame } from "./endgame-solver";
+
+/** What the worker is asked to do. */
+export type WorkerTask =
+  | { type: "simulate"; request: SimulationRequest }
+  | { type: "solveEndgame"; request: EndgameRequest };
+
+/** What each type of task returns. */
+export interface WorkerResults {
+  simulate: MoveSimulation[];
+  solveEndgame: EndgameSolution;
+}
+
+export type WorkerResult = WorkerResults[keyof WorkerResults];
+
+export async function runWorkerTask<T extends WorkerTask>(
+  task: T
+): Promise<WorkerResults[T["type"]]>;
+export async function runWorkerTask(task: WorkerTask): Promise<WorkerResult> {
+  const dawg = await getDawg(task.request.language);
+  if (task.type === "solveEndgame") {
+    return solveEndgame(task.request.position, dawg, task.request.options);
+  }
+  return simulateMoves(
+    task.request.position,
+    task.request.candidates,
+    dawg,
+    task.request.options
+  );
+}
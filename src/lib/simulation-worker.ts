@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Worker thread that runs move simulations and endgame
+ * searches, which take seconds of CPU time, away from the thread serving
+ * requests. Each language's DAWG is built in the worker the first time it is
+ * needed.
+ */
+import { parentPort } from "worker_threads";
+import { runWorkerTask, WorkerTask } from "./simulation-tasks";
+
+parentPort?.on("message", async ({ id, task }: { id: number; task: WorkerTask }) => {
+  try {
+    parentPort!.postMessage({ id, result: await runWorkerTask(task) });
+  } catch (error) {
+    parentPort!.postMessage({
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
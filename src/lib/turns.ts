@@ -0,0 +1,74 @@
+import type { GameState, Player, Tile } from "@/types";
+import { getLanguage } from "./languages";
+
+type TurnState<P> = Pick<
+  GameState,
+  "history" | "gamePhase" | "turnOrder" | "currentTurn"
+> & { players: P[] };
+
+const BLANK = " ";
+
+/**
+ * Works out whose turn it is. Games started from the lobby follow the turn
+ * order fixed at the start. In older games, before everyone has played once,
+ * the next player is the earliest joined player who hasn't played yet, after
+ * that turns follow join order.
+ */
+export const getCurrentPlayer = <P extends Pick<Player, "id">>(
+  gameState: TurnState<P>
+): P | null => {
+  if (!gameState || gameState.players.length === 0) return null;
+  if (gameState.gamePhase === "lobby") return null;
+  if (gameState.turnOrder) {
+    const playerId = gameState.turnOrder[gameState.currentTurn ?? 0];
+    return gameState.players.find((p) => p.id === playerId) ?? null;
+  }
+  const turnsPlayed = gameState.history.filter((h) => h.playerId).length;
+  if (turnsPlayed < gameState.players.length) {
+    const playedPlayerIds = new Set(gameState.history.map((h) => h.playerId));
+    const waitingPlayers = gameState.players.filter(
+      (p) => !playedPlayerIds.has(p.id)
+    );
+    if (waitingPlayers.length > 0) return waitingPlayers[0];
+  }
+  return gameState.players[turnsPlayed % gameState.players.length];
+};
+
+/**
+ * Ranks a drawn tile, lower goes first: a blank, then the letters in the
+ * order of the game's alphabet.
+ */
+const drawRank = (tile: Tile, alphabet: string[]) =>
+  tile.letter === BLANK ? -1 : alphabet.indexOf(tile.letter);
+
+/**
+ * Decides the turn order as in the official rules: every player draws a tile,
+ * whoever is closest to the start of the alphabet goes first (a blank beats
+ * an A), and tied players draw again. Play then continues in seating order.
+ * Tiles are drawn from the front of the (shuffled) bag without replacement.
+ */
+export function drawForTurnOrder(
+  playerIds: string[],
+  tileBag: Tile[],
+  alphabet: string[] = getLanguage().alphabet
+): { turnOrder: string[]; turnOrderDraws: Record<string, string[]> } {
+  const turnOrderDraws: Record<string, string[]> = Object.fromEntries(
+    playerIds.map((id) => [id, []])
+  );
+  let contenders = playerIds;
+  let next = 0;
+  while (contenders.length > 1 && next + contenders.length <= tileBag.length) {
+    const draws = contenders.map((id) => {
+      const tile = tileBag[next++];
+      turnOrderDraws[id].push(tile.letter);
+      return { id, rank: drawRank(tile, alphabet) };
+    });
+    const best = Math.min(...draws.map((d) => d.rank));
+    contenders = draws.filter((d) => d.rank === best).map((d) => d.id);
+  }
+  const first = playerIds.indexOf(contenders[0]);
+  return {
+    turnOrder: [...playerIds.slice(first), ...playerIds.slice(0, first)],
+    turnOrderDraws,
+  };
+}
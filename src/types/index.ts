@@ -10,6 +10,8 @@ export interface PlacedTile extends Tile {
   y: number;
 }
 
+export type ComputerDifficulty = "easy" | "medium" | "hard" | "expert";
+
 export interface Player {
   id: string;
   name: string;
@@ -17,9 +19,15 @@ export interface Player {
   rack: Tile[];
   code: string;
   isComputer?: boolean;
+  /** How strongly a computer player plays. */
+  difficulty?: ComputerDifficulty;
+  /** Whether the player is ready for the game to start, in the lobby. */
+  isReady?: boolean;
+  /** When the player went on vacation, which pauses their turn deadlines. */
+  vacationStartedAt?: string;
 }
 
-export type GamePhase = "playing" | "ended";
+export type GamePhase = "lobby" | "playing" | "ended";
 
 export type BoardSquare = {
   tile: PlacedTile | null;
@@ -32,6 +40,107 @@ export type BoardSquare = {
 
 export type Board = BoardSquare[][];
 
+export interface PremiumSquareGroup {
+  multiplierType: "letter" | "word";
+  multiplier: number;
+  /** Positions of the squares as [row, column]. */
+  squares: [number, number][];
+}
+
+/**
+ * How words are checked. With "void" only valid words can be played, in the
+ * other modes any play stands unless an opponent challenges it. A failed
+ * challenge costs points with "single" and a turn with "double".
+ */
+export type ChallengeMode = "void" | "single" | "double";
+
+/** Languages a game can be played in, each with its own tiles and words. */
+export type LanguageCode = "en" | "fr" | "es" | "de";
+
+/**
+ * Clocks for timed games, as on a chess clock only the player whose turn it
+ * is uses their time.
+ */
+export interface TimeControl {
+  /** Time each player has for all their moves, in minutes. */
+  gameMinutes?: number;
+  /** Points lost at the end for each minute, or part of one, over time. */
+  overtimePenalty: number;
+  /** Time allowed over the game time before losing on time, in minutes. */
+  maxOvertimeMinutes: number;
+  /** Time allowed for each move, in seconds, after which the turn passes. */
+  moveSeconds?: number;
+}
+
+/**
+ * What happens when a player misses a turn deadline: their turn passes, a
+ * computer player takes over from them or they forfeit the game.
+ */
+export type DeadlineAction = "pass" | "computer" | "forfeit";
+
+/** Deadlines for slow games, played over days. */
+export interface TurnDeadline {
+  /** Time each player has for a move, in hours. */
+  hours: number;
+  action: DeadlineAction;
+}
+
+export interface GameRules {
+  /** Number of rows and columns, the centre square is in the middle. */
+  boardSize: number;
+  rackSize: number;
+  /** Points for playing a full rack in one turn. */
+  bingoBonus: number;
+  maxPlayers: number;
+  premiumSquares: PremiumSquareGroup[];
+  /** Games without a language are played in English. */
+  language?: LanguageCode;
+  /** Games without a challenge mode are played with "void". */
+  challengeMode?: ChallengeMode;
+  /** Points lost for a failed challenge with "single". */
+  challengePenalty?: number;
+  /** Games without a time control are untimed. */
+  timeControl?: TimeControl;
+  /** Games without turn deadlines wait for players as long as it takes. */
+  turnDeadline?: TurnDeadline;
+}
+
+/** How one letter of a word was scored. */
+export interface LetterScore {
+  letter: string;
+  x: number;
+  y: number;
+  /** The tile's points, 0 for a blank. */
+  points: number;
+  /** The square's letter multiplier, 1 unless the tile was just placed. */
+  letterMultiplier: number;
+  /** Whether the tile was placed in this move, rather than already there. */
+  isNew: boolean;
+}
+
+/** How one word formed by a move was scored. */
+export interface WordScore {
+  word: string;
+  /** The square the word starts on. */
+  x: number;
+  y: number;
+  direction: "horizontal" | "vertical";
+  letters: LetterScore[];
+  /** The word multipliers of the squares the new tiles were placed on. */
+  wordMultiplier: number;
+  score: number;
+}
+
+/** How the score of a move was reached. */
+export interface ScoreBreakdown {
+  /** Every word formed, the main word first. */
+  words: WordScore[];
+  isBingo: boolean;
+  /** Points for using the whole rack, 0 unless it is a bingo. */
+  bingoBonus: number;
+  score: number;
+}
+
 export interface PlayedWord {
   playerId: string;
   playerName: string;
@@ -41,9 +150,178 @@ export interface PlayedWord {
   isPass?: boolean;
   isSwap?: boolean;
   isResign?: boolean;
+  /** A play taken back after a successful challenge, its tiles are removed. */
+  isWithdrawn?: boolean;
+  /** A turn lost because the player ran out of time, passing if `isPass`. */
+  isTimeout?: boolean;
+  /** A challenge of the previous play, `score` is any penalty. */
+  isChallenge?: boolean;
+  /** Words of a challenged play that aren't valid, empty if it stood. */
+  invalidWords?: string[];
+  /** How the score of a play was reached, for plays made since it was kept. */
+  scoreBreakdown?: ScoreBreakdown;
+  /** Points added or taken off at the end of the game, in `score`. */
+  adjustment?: ScoreAdjustment["type"];
+  /** Letters left on the player's rack, for a rack adjustment. */
+  rackLetters?: string;
   timestamp: string;
 }
 
+/**
+ * How a game ended: a player used all their tiles after the bag ran out,
+ * there were six scoreless turns in a row, or every other player resigned or
+ * lost on time.
+ */
+export type GameEndReason = "tilesOut" | "scorelessTurns" | "forfeit";
+
+/** Points added to or taken from a player's score when the game ends. */
+export interface ScoreAdjustment {
+  playerId: string;
+  /**
+   * "rack" for the tiles left on racks, which the player who went out gains,
+   * "overtime" for going over time.
+   */
+  type: "rack" | "overtime";
+  points: number;
+}
+
+export interface PlayerStanding {
+  playerId: string;
+  /** Places start at 1, players who are still tied share one. */
+  place: number;
+  score: number;
+  /** The score before the adjustments at the end, which breaks ties. */
+  scoreBeforeAdjustments: number;
+  /** Whether the player resigned or lost on time, which places them last. */
+  hasForfeited?: boolean;
+}
+
+export interface GameResult {
+  reason: GameEndReason;
+  /** Every player, best first. */
+  standings: PlayerStanding[];
+  adjustments: ScoreAdjustment[];
+  /** Everyone in first place, more than one if the game is a tie. */
+  winnerIds: string[];
+  isTie: boolean;
+}
+
+/** The latest play, while opponents can still challenge it. */
+export interface PendingPlay {
+  playerId: string;
+  /** Index of the play in the history. */
+  historyIndex: number;
+  /** Every word the play formed. */
+  words: string[];
+  /** Tiles drawn after the play, which go back if it is withdrawn. */
+  drawnTileIds: string[];
+}
+
+export type Move =
+  | { type: "play"; tiles: PlacedTile[] }
+  | { type: "swap"; tiles: Tile[] }
+  | { type: "pass" };
+
+interface GameEventBase {
+  timestamp: string;
+}
+
+export type GameEvent = GameEventBase &
+  (
+    /**
+     * The tile bag is shuffled from `seed`, as are later swaps. Games start in
+     * the lobby.
+     */
+    | {
+        type: "gameCreated";
+        gameId: string;
+        seed: number;
+        rules?: GameRules;
+      }
+    /** Starting point for games created before the event log existed. */
+    | {
+        type: "stateImported";
+        gameId: string;
+        players: Player[];
+        tileBag: Tile[];
+        history: PlayedWord[];
+        gamePhase: GamePhase;
+        endStatus?: string;
+        createdAt?: string;
+        seed: number;
+        rules?: GameRules;
+      }
+    | {
+        type: "playerJoined";
+        player: Pick<
+          Player,
+          "id" | "name" | "code" | "isComputer" | "difficulty"
+        >;
+      }
+    | {
+        type: "playerReplaced";
+        playerId: string;
+        difficulty: ComputerDifficulty;
+      }
+    | { type: "playerReady"; playerId: string; isReady: boolean }
+    | { type: "vacationChanged"; playerId: string; isOnVacation: boolean }
+    /** A player left the lobby or the host removed them. */
+    | { type: "playerRemoved"; playerId: string }
+    /** The host changed the seating order in the lobby. */
+    | { type: "playersReordered"; playerIds: string[] }
+    | { type: "rulesChanged"; rules: GameRules }
+    /**
+     * The tiles each player drew to decide who goes first, who then play in
+     * `turnOrder`. The drawn tiles are shuffled back into the bag.
+     */
+    | {
+        type: "gameStarted";
+        turnOrder: string[];
+        turnOrderDraws: Record<string, string[]>;
+      }
+    /** Tiles taken from the bag into a player's rack, in draw order. */
+    | { type: "tilesDrawn"; playerId: string; tileIds: string[] }
+    | {
+        type: "tilesPlayed";
+        playerId: string;
+        word: string;
+        tiles: PlacedTile[];
+        score: number;
+        /** Every word formed, which can be challenged. */
+        words?: string[];
+        scoreBreakdown?: ScoreBreakdown;
+      }
+    /** Tiles returned to the bag, which is then shuffled. */
+    | { type: "tilesSwapped"; playerId: string; tileIds: string[] }
+    | {
+        type: "turnPassed";
+        playerId: string;
+        /** Passed automatically when the move time or turn deadline ran out. */
+        isTimeout?: boolean;
+      }
+    | { type: "playerResigned"; playerId: string }
+    /** A player used up their overtime, or missed a turn deadline, and lost. */
+    | { type: "flagFell"; playerId: string }
+    /**
+     * An opponent challenged the pending play. It is withdrawn if any of its
+     * words are invalid, which is decided when the event is created.
+     */
+    | { type: "playChallenged"; playerId: string; invalidWords: string[] }
+    /** The next player accepted the pending play without challenging. */
+    | { type: "playAccepted"; playerId: string }
+    | {
+        type: "gameEnded";
+        endStatus: string;
+        reason: GameEndReason;
+        /** Points added to or taken from scores, each added to the history. */
+        adjustments: ScoreAdjustment[];
+        /** Players who resigned or lost on time and are still in the game. */
+        forfeitedPlayerIds?: string[];
+      }
+  );
+
+export type GameEventType = GameEvent["type"];
+
 export interface GameState {
   gameId: string;
   players: Player[];
@@ -52,6 +330,126 @@ export interface GameState {
   history: PlayedWord[];
   gamePhase: GamePhase;
   endStatus?: string;
+  /** Final standings, once the game has ended. */
+  result?: GameResult;
   createdAt?: string;
   crosswordTitle?: string;
+  /** Rules chosen when the game was created, the standard rules if unset. */
+  rules?: GameRules;
+  /** Seed of the random numbers used to shuffle the tile bag. */
+  seed?: number;
+  /** State of the seeded random numbers after the latest shuffle. */
+  rngState?: number;
+  /** The player who sets up the game in the lobby and starts it. */
+  hostId?: string;
+  /** Ids of the players in the order they take turns, fixed at the start. */
+  turnOrder?: string[];
+  /** Index in `turnOrder` of the player whose turn it is. */
+  currentTurn?: number;
+  /** Letters each player drew to decide the turn order, ties redraw. */
+  turnOrderDraws?: Record<string, string[]>;
+  /** The latest play, until the next player accepts or challenges it. */
+  pendingPlay?: PendingPlay;
+  /** Players who lose their next turn for a failed double challenge. */
+  skippedTurns?: string[];
+  /** When the current turn started, which starts the player's clock. */
+  turnStartedAt?: string;
+  /** Time each player has taken over their finished turns, in milliseconds. */
+  timeUsed?: Record<string, number>;
+  /** Time the current turn's deadline was paused by a vacation, in milliseconds. */
+  turnPausedMs?: number;
+  /** Every change to the game, in order. The other fields are derived. */
+  events?: GameEvent[];
+}
+
+/** A player as seen by someone else in the game, without their code. */
+export interface PlayerView extends Omit<Player, "code"> {
+  /** The rack is only shown to its owner, and to everyone once the game ends. */
+  rack: Tile[];
+  rackSize: number;
+}
+
+/** Number of tiles of a letter that a player hasn't seen yet. */
+export interface UnseenTileCount {
+  letter: string;
+  points: number;
+  count: number;
+}
+
+/**
+ * The game as one player sees it. Other players' racks, the order of the tile
+ * bag and anything that could be used to work them out stay on the server.
+ */
+export interface GameView
+  extends Omit<GameState, "players" | "tileBag" | "seed" | "rngState" | "events"> {
+  players: PlayerView[];
+  /** The player the view was made for, if they are in the game. */
+  viewerId?: string;
+  tileBagCount: number;
+  /** Tiles in the bag and on the other players' racks, by letter. */
+  unseenTiles: UnseenTileCount[];
+}
+
+/**
+ * How good a move was, by the equity it gave up against the best move from
+ * the same position.
+ */
+export type MoveGrade = "best" | "good" | "inaccuracy" | "mistake" | "blunder";
+
+/** A move that could have been made, with how it rates. */
+export interface AnalysedMove {
+  type: Move["type"];
+  /** The main word of a play. */
+  word?: string;
+  /** The square a play's word starts on. */
+  x?: number;
+  y?: number;
+  direction?: "horizontal" | "vertical";
+  /** The letters placed, or swapped. */
+  tiles: string[];
+  score: number;
+  /**
+   * The score plus the value of the tiles kept, once the bag is empty just the
+   * score, or the spread it leads to by the end of a solved endgame.
+   */
+  equity: number;
+  /** Average points ahead a few turns later, when the play was simulated. */
+  expectedSpread?: number;
+  /** Chance of winning after the play, from 0 to 1, when it was simulated. */
+  winProbability?: number;
+}
+
+/** One move of a finished game compared with the best move available. */
+export interface MoveAnalysis {
+  /** Index of the move in the history. */
+  historyIndex: number;
+  playerId: string;
+  /** The rack before the move. */
+  rack: string[];
+  move: AnalysedMove;
+  /** The move with the most equity from the same position. */
+  bestMove: AnalysedMove;
+  /** Points behind the highest scoring play, 0 if none scored more. */
+  pointsLost: number;
+  /** Equity behind the best move, 0 if none had more. */
+  equityLost: number;
+  grade: MoveGrade;
+  /** The best line to the end of the game, such as "QI 22", when the endgame was solved. */
+  bestLine?: string[];
+}
+
+export interface PlayerAccuracy {
+  playerId: string;
+  /** The average share of the best move's equity each move got, from 0 to 100. */
+  accuracy: number;
+  equityLost: number;
+  moves: number;
+  bestMoves: number;
+}
+
+export interface GameAnalysis {
+  moves: MoveAnalysis[];
+  players: PlayerAccuracy[];
+  /** Number of events analysed, which tells whether the analysis is up to date. */
+  eventCount: number;
 }